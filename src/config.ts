@@ -0,0 +1,180 @@
+import crypto from "crypto";
+import { SignOptions } from "jsonwebtoken";
+import { LogFormat, Logger, LoggerOptions, LogLevel } from "./utils/Logger";
+import { CacheOptions } from "./services/CacheService";
+import { LoginThrottleOptions } from "./services/LoginThrottle";
+import { RateLimitBucket } from "./middleware/rateLimit";
+import { DeadlineSchedulerOptions } from "./services/DeadlineScheduler";
+
+function readPersistenceDriver(): PersistenceConfig["driver"] {
+    const driver = process.env.PERSISTENCE_DRIVER || "memory";
+    if (driver !== "memory" && driver !== "file") {
+        throw new Error(`Unknown PERSISTENCE_DRIVER "${driver}", expected "memory" or "file"`);
+    }
+    return driver;
+}
+
+function readCacheDriver(): CacheOptions["driver"] {
+    const driver = process.env.CACHE_DRIVER || "memory";
+    if (driver !== "memory" && driver !== "redis") {
+        throw new Error(`Unknown CACHE_DRIVER "${driver}", expected "memory" or "redis"`);
+    }
+    if (driver === "redis" && !process.env.REDIS_URL) {
+        throw new Error("CACHE_DRIVER is \"redis\" but REDIS_URL is not set");
+    }
+    return driver;
+}
+
+function readNotifierDriver(name: string, fallback: NotifierDriver): NotifierDriver {
+    const driver = process.env[name] || fallback;
+    if (driver !== "console" && driver !== "outbox" && driver !== "webhook") {
+        throw new Error(`Unknown ${name} "${driver}", expected "console", "outbox" or "webhook"`);
+    }
+    if (driver === "webhook" && !process.env.NOTIFIER_WEBHOOK_URL) {
+        throw new Error(`${name} is "webhook" but NOTIFIER_WEBHOOK_URL is not set`);
+    }
+    return driver;
+}
+
+// Comma-separated minutes, e.g. "1440,60"
+function readLeadTimes(): number[] {
+    const value = process.env.REMINDER_LEAD_TIMES_MINUTES ?? "1440,60";
+    const leadTimes = value.split(",").map(s => s.trim()).filter(Boolean).map(Number);
+    if (leadTimes.some(minutes => !Number.isInteger(minutes) || minutes <= 0)) {
+        throw new Error(`Invalid REMINDER_LEAD_TIMES_MINUTES "${value}", expected positive whole minutes`);
+    }
+    return leadTimes;
+}
+
+function readBootstrapAdmin(): AppConfig["bootstrapAdmin"] {
+    const email = process.env.BOOTSTRAP_ADMIN_EMAIL;
+    const password = process.env.BOOTSTRAP_ADMIN_PASSWORD;
+    if (!email && !password) {
+        return undefined;
+    }
+    if (!email || !password) {
+        throw new Error("BOOTSTRAP_ADMIN_EMAIL and BOOTSTRAP_ADMIN_PASSWORD must be set together");
+    }
+    return { email, password };
+}
+
+function readLogFormat(): LogFormat {
+    return process.env.LOG_FORMAT === "json" ? "json" : "text";
+}
+
+function readJwtSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (secret) {
+        return secret;
+    }
+
+    Logger.error("JWT_SECRET is not set; using a random secret, issued tokens will not survive a restart");
+    return crypto.randomBytes(32).toString("hex");
+}
+
+export interface JwtConfig {
+    secret: string;
+    expiresIn: NonNullable<SignOptions["expiresIn"]>;
+    refreshTokenTtlSeconds: number;
+    emailVerificationExpiresIn: NonNullable<SignOptions["expiresIn"]>;
+    passwordResetTtlSeconds: number;
+}
+
+export interface PersistenceConfig {
+    driver: "memory" | "file";
+    dataDir: string;
+}
+
+export type NotifierDriver = "console" | "outbox" | "webhook";
+
+export interface NotificationConfig {
+    driver: NotifierDriver;
+    outboxPath: string;
+    webhookUrl?: string;
+}
+
+export interface ReminderConfig extends DeadlineSchedulerOptions {
+    enabled: boolean;
+    // Channel for reminders and overdue notices; defaults to the general one
+    driver: NotifierDriver;
+}
+
+export interface AppConfig {
+    port: number;
+    // Set when behind a proxy so that client IPs come from X-Forwarded-For
+    trustProxy: boolean;
+    logging: Omit<LoggerOptions, "redactKeys">;
+    jwt: JwtConfig;
+    persistence: PersistenceConfig;
+    cache: CacheOptions;
+    notifications: NotificationConfig;
+    reminders: ReminderConfig;
+    auditLogPath: string;
+    loginThrottle: LoginThrottleOptions;
+    rateLimits: {
+        global: RateLimitBucket;
+        auth: RateLimitBucket;
+    };
+    // Created (or promoted) at startup when no admin exists yet
+    bootstrapAdmin?: { email: string; password: string };
+}
+
+export const config: AppConfig = {
+    port: Number(process.env.PORT) || 3000,
+    trustProxy: process.env.TRUST_PROXY === "true",
+    logging: {
+        level: Logger.parseLevel(process.env.LOG_LEVEL, LogLevel.INFO),
+        format: readLogFormat()
+    },
+    jwt: {
+        secret: readJwtSecret(),
+        expiresIn: (process.env.JWT_EXPIRES_IN || "15m") as JwtConfig["expiresIn"],
+        refreshTokenTtlSeconds: Number(process.env.REFRESH_TOKEN_TTL_SECONDS) || 7 * 24 * 60 * 60,
+        emailVerificationExpiresIn: (process.env.EMAIL_VERIFICATION_EXPIRES_IN || "24h") as JwtConfig["expiresIn"],
+        passwordResetTtlSeconds: Number(process.env.PASSWORD_RESET_TTL_SECONDS) || 60 * 60
+    },
+    persistence: {
+        driver: readPersistenceDriver(),
+        dataDir: process.env.DATA_DIR || "data"
+    },
+    cache: {
+        driver: readCacheDriver(),
+        maxEntries: Number(process.env.CACHE_MAX_ENTRIES) || 1000,
+        defaultTtlMs: Number(process.env.CACHE_TTL_MS) || 60000,
+        sweepIntervalMs: Number(process.env.CACHE_SWEEP_INTERVAL_MS) || 30000,
+        // With the memory driver, setting REDIS_URL only enables cross-instance invalidation
+        redisUrl: process.env.REDIS_URL || undefined,
+        keyPrefix: process.env.CACHE_KEY_PREFIX || "tasks-api:",
+        invalidationChannel: process.env.CACHE_INVALIDATION_CHANNEL || "tasks-api:cache-invalidation"
+    },
+    notifications: {
+        driver: readNotifierDriver("NOTIFIER", "console"),
+        outboxPath: process.env.OUTBOX_PATH || "data/outbox.jsonl",
+        webhookUrl: process.env.NOTIFIER_WEBHOOK_URL || undefined
+    },
+    reminders: {
+        enabled: process.env.REMINDERS_ENABLED !== "false",
+        driver: readNotifierDriver("REMINDER_NOTIFIER", readNotifierDriver("NOTIFIER", "console")),
+        intervalSeconds: Number(process.env.REMINDER_INTERVAL_SECONDS) || 60,
+        leadTimesMinutes: readLeadTimes()
+    },
+    auditLogPath: process.env.AUDIT_LOG_PATH || "data/audit.jsonl",
+    loginThrottle: {
+        accountMaxFailures: Number(process.env.LOGIN_MAX_FAILURES_PER_ACCOUNT) || 5,
+        ipMaxFailures: Number(process.env.LOGIN_MAX_FAILURES_PER_IP) || 20,
+        baseLockoutSeconds: Number(process.env.LOGIN_LOCKOUT_SECONDS) || 30,
+        maxLockoutSeconds: Number(process.env.LOGIN_MAX_LOCKOUT_SECONDS) || 60 * 60,
+        failureWindowSeconds: Number(process.env.LOGIN_FAILURE_WINDOW_SECONDS) || 15 * 60
+    },
+    rateLimits: {
+        global: {
+            capacity: Number(process.env.RATE_LIMIT_CAPACITY) || 100,
+            refillPerSecond: Number(process.env.RATE_LIMIT_REFILL_PER_SECOND) || 10
+        },
+        auth: {
+            capacity: Number(process.env.AUTH_RATE_LIMIT_CAPACITY) || 10,
+            refillPerSecond: Number(process.env.AUTH_RATE_LIMIT_REFILL_PER_SECOND) || 0.2
+        }
+    },
+    bootstrapAdmin: readBootstrapAdmin()
+};
@@ -0,0 +1,119 @@
+import { Request, Response } from "express";
+import { ProjectService } from "../services/ProjectService";
+import { CreateProjectDTO, DeleteProjectOptions, ProjectMemberDTO, UpdateProjectDTO } from "../types/DTOs";
+import { ValidationError } from "../errors/BaseError";
+import { AuthContext } from "../utils/AuthContext";
+import { QueryParams } from "../utils/QueryParams";
+import { Authenticated, Logged } from "../decorators";
+
+export class ProjectController {
+    constructor(private projectService: ProjectService) { }
+
+    @Logged
+    @Authenticated
+    async createProject(req: Request, res: Response) {
+        const { name, description } = req.body;
+
+        const dto: CreateProjectDTO = { name, description };
+        const project = await this.projectService.create(dto, AuthContext.get());
+
+        return res.status(201).json(project);
+    }
+
+    @Logged
+    @Authenticated
+    async listProjects(req: Request, res: Response) {
+        const archived = QueryParams.single(req.query, "archived");
+        if (archived !== undefined && archived !== "true" && archived !== "false") {
+            throw new ValidationError("archived must be true or false");
+        }
+        const projects = await this.projectService.list(AuthContext.getUserId(), archived === "true");
+
+        return res.json(projects);
+    }
+
+    @Logged
+    @Authenticated
+    async getProject(req: Request, res: Response) {
+        const project = await this.projectService.getById(req.params.id as string, AuthContext.get());
+
+        return res.json(project);
+    }
+
+    @Logged
+    @Authenticated
+    async editProject(req: Request, res: Response) {
+        const { name, description } = req.body;
+
+        const dto: UpdateProjectDTO = {};
+        if (name !== undefined) dto.name = name;
+        if (description !== undefined) dto.description = description;
+
+        const project = await this.projectService.update(req.params.id as string, dto, AuthContext.get());
+
+        return res.json(project);
+    }
+
+    @Logged
+    @Authenticated
+    async archiveProject(req: Request, res: Response) {
+        const project = await this.projectService.archive(req.params.id as string, AuthContext.get());
+
+        return res.json(project);
+    }
+
+    @Logged
+    @Authenticated
+    async unarchiveProject(req: Request, res: Response) {
+        const project = await this.projectService.unarchive(req.params.id as string, AuthContext.get());
+
+        return res.json(project);
+    }
+
+    @Logged
+    @Authenticated
+    async addMember(req: Request, res: Response) {
+        const { userId } = req.body;
+
+        const dto: ProjectMemberDTO = { userId };
+        const project = await this.projectService.addMember(req.params.id as string, dto, AuthContext.get());
+
+        return res.json(project);
+    }
+
+    @Logged
+    @Authenticated
+    async removeMember(req: Request, res: Response) {
+        const project = await this.projectService.removeMember(
+            req.params.id as string,
+            req.params.userId as string,
+            AuthContext.get()
+        );
+
+        return res.json(project);
+    }
+
+    @Logged
+    @Authenticated
+    async deleteProject(req: Request, res: Response) {
+        const options = this.parseDeleteOptions(req.query);
+        const taskCount = await this.projectService.delete(req.params.id as string, options, AuthContext.get());
+
+        const verb = options.tasks === "delete" ? "Deleted" : "Moved";
+        return res.json({ taskCount, message: `${verb} ${taskCount} tasks` });
+    }
+
+    // ?tasks=move|delete&targetProjectId=...; tasks are moved out of the project by default
+    private parseDeleteOptions(params: Request["query"]): DeleteProjectOptions {
+        const tasks = QueryParams.single(params, "tasks") ?? "move";
+        if (tasks !== "move" && tasks !== "delete") {
+            throw new ValidationError("tasks must be move or delete");
+        }
+        const targetProjectId = QueryParams.single(params, "targetProjectId");
+        if (targetProjectId && tasks === "delete") {
+            throw new ValidationError("targetProjectId only applies when tasks are moved");
+        }
+
+        return { tasks, targetProjectId: targetProjectId || undefined };
+    }
+}
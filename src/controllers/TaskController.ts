@@ -1,231 +1,223 @@
 import { Request, Response } from "express";
 import { TaskService } from "../services/TaskService";
-import { CreateTaskDTO, Role, UpdateTaskDTO } from "../types/DTOs";
-import { Logger } from "../utils/Logger";
-import { BaseError, ValidationError, ForbiddenError } from "../errors/BaseError";
+import {
+    CreateTaskDTO, ShareTaskDTO, TaskDependencyDTO, TaskQuery, TaskSortField, TaskStatus, UpdateTaskDTO
+} from "../types/DTOs";
+import { ValidationError } from "../errors/BaseError";
 import { AuthContext } from "../utils/AuthContext";
+import { TaskWorkflow } from "../utils/TaskWorkflow";
+import { QueryParams } from "../utils/QueryParams";
+import { AccessPolicy, Action } from "../utils/AccessPolicy";
+import { Authenticated, Logged } from "../decorators";
 
 export class TaskController {
     constructor(private taskService: TaskService) { }
 
+    @Logged
+    @Authenticated
     async createTask(req: Request, res: Response) {
-        Logger.info("Entering createTask endpoint");
-
-        try {
-            const { title, description, deadline, priority } = req.body;
-
-            if (!title) {
-                throw new ValidationError("Title required");
-            }
-
-            AuthContext.extractFromHeaders(req);
-            const userId = AuthContext.getUserId();
-
-            const dto: CreateTaskDTO = {
-                title,
-                description,
-                deadline: deadline ? new Date(deadline) : undefined,
-                priority,
-                ownerId: userId
-            };
-            const task = await this.taskService.create(dto);
-
-            AuthContext.clear();
-
-            return res.status(201).json(task);
-
-        } catch (err) {
-            Logger.error("Error in createTask endpoint", err);
-            AuthContext.clear();
-
-            if (err instanceof BaseError) {
-                return res.status(err.statusCode).json({
-                    error: err.message,
-                    code: err.code
-                });
-            }
-
-            return res.status(500).json({ error: "Internal error" });
-        }
+        const { title, description, deadline, priority, projectId, parentId, recurrence } = req.body;
+
+        const dto: CreateTaskDTO = {
+            title,
+            description,
+            deadline: deadline ? new Date(deadline) : undefined,
+            priority,
+            projectId,
+            parentId,
+            recurrence,
+            ownerId: AuthContext.getUserId()
+        };
+        const task = await this.taskService.create(dto);
+
+        return res.status(201).json(task);
     }
 
+    @Logged
+    @Authenticated
     async deleteTask(req: Request, res: Response) {
-        Logger.info("Entering deleteTask endpoint");
-
-        try {
-            const taskId = req.params.id as string;
-
-            AuthContext.extractFromHeaders(req);
-            const role = AuthContext.getRole();
+        await this.taskService.delete(req.params.id as string, AuthContext.get());
 
-            if (role !== Role.ADMIN) {
-                throw new ForbiddenError("Admin role required");
-            }
-
-            await this.taskService.delete(taskId);
-
-            AuthContext.clear();
-
-            return res.status(204).send();
-
-        } catch (err) {
-            Logger.error("Error in deleteTask endpoint", err);
-            AuthContext.clear();
-
-            if (err instanceof BaseError) {
-                return res.status(err.statusCode).json({
-                    error: err.message,
-                    code: err.code
-                });
-            }
-
-            return res.status(500).json({ error: "Internal error" });
-        }
+        return res.status(204).send();
     }
 
+    @Logged
+    @Authenticated
     async getTask(req: Request, res: Response) {
-        Logger.info("Entering getTask endpoint");
+        const task = await this.taskService.getById(req.params.id as string, AuthContext.get());
+        return res.json(task);
+    }
 
-        try {
-            const task = await this.taskService.getById(req.params.id as string);
-            return res.json(task);
+    @Logged
+    @Authenticated
+    async editTask(req: Request, res: Response) {
+        const taskId = req.params.id as string;
+        const { title, description, status, deadline, priority, projectId } = req.body;
 
-        } catch (err) {
-            Logger.error("Error in getTask endpoint", err);
+        const dto: UpdateTaskDTO = {};
+        if (title !== undefined) dto.title = title;
+        if (description !== undefined) dto.description = description;
+        if (status) dto.status = status;
+        if (deadline) dto.deadline = new Date(deadline);
+        if (priority) dto.priority = priority;
+        if (projectId) dto.projectId = projectId;
 
-            if (err instanceof BaseError) {
-                return res.status(err.statusCode).json({
-                    error: err.message,
-                    code: err.code
-                });
-            }
+        const task = await this.taskService.update(taskId, dto, AuthContext.get());
 
-            return res.status(500).json({ error: "Internal error" });
-        }
+        return res.json(task);
     }
 
-    async editTask(req: Request, res: Response) {
-        Logger.info("Entering editTask endpoint");
+    @Logged
+    @Authenticated
+    async reopenTask(req: Request, res: Response) {
+        const task = await this.taskService.reopen(req.params.id as string, AuthContext.get());
 
-        try {
-            const taskId = req.params.id as string;
-            const { title, description, status, deadline, priority } = req.body;
+        return res.json(task);
+    }
+
+    @Logged
+    @Authenticated
+    async getTaskHistory(req: Request, res: Response) {
+        const history = await this.taskService.getHistory(req.params.id as string, AuthContext.get());
 
-            if (!title && !description && !status && !deadline && !priority) {
-                throw new ValidationError("At least one field (title, description, status, deadline, or priority) required");
-            }
+        return res.json(history);
+    }
 
-            const dto: UpdateTaskDTO = {};
-            if (title !== undefined) dto.title = title;
-            if (description !== undefined) dto.description = description;
-            if (status) dto.status = status;
-            if (deadline) dto.deadline = new Date(deadline);
-            if (priority) dto.priority = priority;
+    @Logged
+    @Authenticated
+    async getSubtasks(req: Request, res: Response) {
+        const subtasks = await this.taskService.getSubtasks(req.params.id as string, AuthContext.get());
 
-            const task = await this.taskService.update(taskId, dto);
+        return res.json(subtasks);
+    }
 
-            return res.json(task);
+    @Logged
+    @Authenticated
+    async addDependency(req: Request, res: Response) {
+        const { taskId } = req.body as TaskDependencyDTO;
+        const task = await this.taskService.addDependency(req.params.id as string, taskId, AuthContext.get());
 
-        } catch (err) {
-            Logger.error("Error in editTask endpoint", err);
+        return res.json(task);
+    }
 
-            if (err instanceof BaseError) {
-                return res.status(err.statusCode).json({
-                    error: err.message,
-                    code: err.code
-                });
-            }
+    @Logged
+    @Authenticated
+    async removeDependency(req: Request, res: Response) {
+        const task = await this.taskService.removeDependency(
+            req.params.id as string,
+            req.params.blockerId as string,
+            AuthContext.get()
+        );
 
-            return res.status(500).json({ error: "Internal error" });
-        }
+        return res.json(task);
     }
 
+    @Logged
+    @Authenticated
     async getTasksByOwner(req: Request, res: Response) {
-        Logger.info("Entering getTasksByOwner endpoint");
+        const query = this.parseTaskQuery(req.query);
+        const page = await this.taskService.getByOwner(AuthContext.getUserId(), query);
 
-        try {
-            AuthContext.extractFromHeaders(req);
-            const userId = AuthContext.getUserId();
-
-            const tasks = await this.taskService.getByOwner(userId);
-            AuthContext.clear();
+        return res.json(page);
+    }
 
-            return res.json(tasks);
+    @Logged
+    @Authenticated
+    async getAssignedTasks(req: Request, res: Response) {
+        const query = this.parseTaskQuery(req.query);
+        const page = await this.taskService.getAssigned(AuthContext.getUserId(), query);
 
-        } catch (err) {
-            Logger.error("Error in getTasksByOwner endpoint", err);
-            AuthContext.clear();
+        return res.json(page);
+    }
 
-            if (err instanceof BaseError) {
-                return res.status(err.statusCode).json({
-                    error: err.message,
-                    code: err.code
-                });
-            }
+    @Logged
+    @Authenticated
+    async getOverdueTasks(req: Request, res: Response) {
+        const tasks = await this.taskService.getOverdue(AuthContext.getUserId());
 
-            return res.status(500).json({ error: "Internal error" });
-        }
+        return res.json(tasks);
     }
 
-    async deleteTasksByOwner(req: Request, res: Response) {
-        Logger.info("Entering deleteTasksByOwner endpoint");
+    @Logged
+    @Authenticated
+    async shareTask(req: Request, res: Response) {
+        const { userId, role } = req.body;
 
-        try {
-            AuthContext.extractFromHeaders(req);
-            const userId = AuthContext.getUserId();
-            const role = AuthContext.getRole();
+        const dto: ShareTaskDTO = { userId, role };
+        const task = await this.taskService.share(req.params.id as string, dto, AuthContext.get());
 
-            // Only allow users to delete their own tasks or admins to delete any user's tasks
-            const targetUserId = typeof req.params.userId === 'string' ? req.params.userId : userId;
-            if (targetUserId !== userId && role !== Role.ADMIN) {
-                throw new ForbiddenError("You can only delete your own tasks");
-            }
+        return res.json(task);
+    }
 
-            const deletedCount = await this.taskService.deleteByOwner(targetUserId);
-            AuthContext.clear();
+    @Logged
+    @Authenticated
+    async unshareTask(req: Request, res: Response) {
+        const task = await this.taskService.unshare(req.params.id as string, req.params.userId as string, AuthContext.get());
 
-            return res.json({ deletedCount, message: `Deleted ${deletedCount} tasks` });
+        return res.json(task);
+    }
 
-        } catch (err) {
-            Logger.error("Error in deleteTasksByOwner endpoint", err);
-            AuthContext.clear();
+    @Logged
+    @Authenticated
+    async deleteTasksByOwner(req: Request, res: Response) {
+        const principal = AuthContext.get();
+        const targetUserId = typeof req.params.userId === 'string' ? req.params.userId : principal.userId;
+        AccessPolicy.authorize(principal, Action.OWNER_TASKS_DELETE, { ownerId: targetUserId });
 
-            if (err instanceof BaseError) {
-                return res.status(err.statusCode).json({
-                    error: err.message,
-                    code: err.code
-                });
-            }
+        const deletedCount = await this.taskService.deleteByOwner(targetUserId);
 
-            return res.status(500).json({ error: "Internal error" });
-        }
+        return res.json({ deletedCount, message: `Deleted ${deletedCount} tasks` });
     }
 
+    @Logged
+    @Authenticated
     async deleteMultipleTasks(req: Request, res: Response) {
-        Logger.info("Entering deleteMultipleTasks endpoint");
-
-        try {
-            const { ids } = req.body;
+        const { ids } = req.body;
+        const deletedCount = await this.taskService.deleteMultiple(ids, AuthContext.get());
 
-            if (!ids || !Array.isArray(ids) || ids.length === 0) {
-                throw new ValidationError("ids must be a non-empty array");
-            }
+        return res.json({ deletedCount, message: `Deleted ${deletedCount} tasks` });
+    }
 
-            const deletedCount = await this.taskService.deleteMultiple(ids);
+    private parseTaskQuery(params: Request["query"]): TaskQuery {
+        const status = QueryParams.single(params, "status");
+        if (status && !TaskWorkflow.isStatus(status)) {
+            throw new ValidationError("status must be TODO, IN_PROGRESS, DONE, or CANCELLED");
+        }
 
-            return res.json({ deletedCount, message: `Deleted ${deletedCount} tasks` });
+        const priority = QueryParams.single(params, "priority");
+        if (priority && !['LOW', 'MEDIUM', 'HIGH'].includes(priority)) {
+            throw new ValidationError("priority must be LOW, MEDIUM, or HIGH");
+        }
 
-        } catch (err) {
-            Logger.error("Error in deleteMultipleTasks endpoint", err);
+        const sortBy = QueryParams.single(params, "sortBy");
+        if (sortBy && !['deadline', 'priority', 'createdAt'].includes(sortBy)) {
+            throw new ValidationError("sortBy must be deadline, priority, or createdAt");
+        }
 
-            if (err instanceof BaseError) {
-                return res.status(err.statusCode).json({
-                    error: err.message,
-                    code: err.code
-                });
-            }
+        const sortOrder = QueryParams.single(params, "sortOrder");
+        if (sortOrder && !['asc', 'desc'].includes(sortOrder)) {
+            throw new ValidationError("sortOrder must be asc or desc");
+        }
 
-            return res.status(500).json({ error: "Internal error" });
+        const deadlineFrom = QueryParams.date(params, "deadlineFrom");
+        const deadlineTo = QueryParams.date(params, "deadlineTo");
+        if (deadlineFrom && deadlineTo && deadlineFrom > deadlineTo) {
+            throw new ValidationError("deadlineFrom must not be after deadlineTo");
         }
+
+        const search = QueryParams.single(params, "search")?.trim();
+        const projectId = QueryParams.single(params, "projectId");
+
+        return {
+            status: status as TaskStatus | undefined,
+            priority: priority as TaskQuery["priority"],
+            deadlineFrom,
+            deadlineTo,
+            search: search || undefined,
+            projectId: projectId || undefined,
+            sortBy: sortBy as TaskSortField | undefined,
+            sortOrder: sortOrder as TaskQuery["sortOrder"],
+            ...QueryParams.page(params)
+        };
     }
 }
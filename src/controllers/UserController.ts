@@ -1,104 +1,183 @@
 import { Request, Response } from "express";
 import { UserService } from "../services/UserService";
-import { CreateUserDTO, LoginDTO } from "../types/DTOs";
-import { Logger } from "../utils/Logger";
-import { BaseError, ValidationError } from "../errors/BaseError";
+import {
+    ChangeRoleDTO, CreateUserDTO, ForgotPasswordDTO, LoginDTO, RefreshTokenDTO, ResetPasswordDTO, Role, UpdateProfileDTO,
+    User, UserQuery, VerifyEmailDTO
+} from "../types/DTOs";
+import { ValidationError } from "../errors/BaseError";
 import { AuthContext } from "../utils/AuthContext";
+import { AccessPolicy } from "../utils/AccessPolicy";
+import { QueryParams } from "../utils/QueryParams";
+import { Authenticated, Logged, RequiresRole } from "../decorators";
+
+// Never expose the password hash
+function toUserView(user: User) {
+    return {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        disabled: Boolean(user.disabled),
+        emailVerified: Boolean(user.emailVerified)
+    };
+}
 
 export class UserController {
     constructor(private userService: UserService) { }
 
+    @Logged
     async register(req: Request, res: Response) {
-        Logger.info("Entering register endpoint");
+        const { email, password } = req.body;
 
-        try {
-            const { email, password } = req.body;
+        const dto: CreateUserDTO = { email, password };
+        const user = await this.userService.createUser(dto);
 
-            if (!email || !password) {
-                throw new ValidationError("Email and password required");
-            }
+        return res.status(201).json(toUserView(user));
+    }
 
-            const dto: CreateUserDTO = { email, password };
-            const user = await this.userService.createUser(dto);
+    @Logged
+    async login(req: Request, res: Response) {
+        const { email, password } = req.body;
 
-            return res.status(201).json({
-                id: user.id,
-                email: user.email,
-                role: user.role
-            });
+        const dto: LoginDTO = { email, password };
+        const tokens = await this.userService.authenticate(dto, req.ip ?? "unknown");
 
-        } catch (err) {
-            Logger.error("Error in register endpoint", err);
+        return res.json(tokens);
+    }
 
-            if (err instanceof BaseError) {
-                return res.status(err.statusCode).json({
-                    error: err.message,
-                    code: err.code
-                });
-            }
+    @Logged
+    async refreshToken(req: Request, res: Response) {
+        const { refreshToken } = req.body;
 
-            return res.status(500).json({ error: "Internal error" });
-        }
+        const dto: RefreshTokenDTO = { refreshToken };
+        const tokens = await this.userService.refreshSession(dto.refreshToken);
+
+        return res.json(tokens);
     }
 
-    async login(req: Request, res: Response) {
-        Logger.info("Entering login endpoint");
+    @Logged
+    async verifyEmail(req: Request, res: Response) {
+        const { token } = req.body as VerifyEmailDTO;
+        const user = await this.userService.verifyEmail(token);
 
-        try {
-            const { email, password } = req.body;
+        return res.json(toUserView(user));
+    }
 
-            if (!email || !password) {
-                throw new ValidationError("Email and password required");
-            }
+    @Logged
+    @Authenticated
+    async resendVerificationEmail(req: Request, res: Response) {
+        await this.userService.resendVerificationEmail(AuthContext.getUserId());
 
-            const dto: LoginDTO = { email, password };
-            const token = await this.userService.authenticate(dto);
+        return res.status(202).json({ message: "Verification email sent" });
+    }
 
-            return res.json({ token });
+    @Logged
+    async forgotPassword(req: Request, res: Response) {
+        const { email } = req.body as ForgotPasswordDTO;
+        await this.userService.requestPasswordReset(email);
 
-        } catch (err) {
-            Logger.error("Error in login endpoint", err);
+        return res.status(202).json({ message: "If the email is registered, a reset token has been sent to it" });
+    }
 
-            if (err instanceof BaseError) {
-                return res.status(err.statusCode).json({
-                    error: err.message,
-                    code: err.code
-                });
-            }
+    @Logged
+    async resetPassword(req: Request, res: Response) {
+        const { token, password } = req.body;
 
-            return res.status(401).json({ error: "Authentication failed" });
-        }
+        const dto: ResetPasswordDTO = { token, password };
+        await this.userService.resetPassword(dto);
+
+        return res.status(204).send();
+    }
+
+    @Logged
+    @Authenticated
+    async logout(req: Request, res: Response) {
+        await this.userService.logout(AuthContext.getSessionId());
+
+        return res.status(204).send();
     }
 
+    @Logged
+    @Authenticated
     async getProfile(req: Request, res: Response) {
-        Logger.info("Entering getProfile endpoint");
+        const user = await this.userService.getById(AuthContext.getUserId());
+
+        return res.json(toUserView(user));
+    }
 
-        try {
-            AuthContext.extractFromHeaders(req);
-            const userId = AuthContext.getUserId();
+    @Logged
+    @Authenticated
+    async updateProfile(req: Request, res: Response) {
+        const { email, password, currentPassword } = req.body;
 
-            const user = await this.userService.getById(userId);
+        const dto: UpdateProfileDTO = { email, password, currentPassword };
+        const user = await this.userService.updateProfile(AuthContext.getUserId(), AuthContext.getSessionId(), dto);
 
-            AuthContext.clear();
+        return res.json(toUserView(user));
+    }
+
+    @Logged
+    @Authenticated
+    async deleteProfile(req: Request, res: Response) {
+        await this.userService.deleteAccount(AuthContext.getUserId());
 
-            return res.json({
-                id: user.id,
-                email: user.email,
-                role: user.role
-            });
+        return res.status(204).send();
+    }
 
-        } catch (err) {
-            Logger.error("Error in getProfile endpoint", err);
-            AuthContext.clear();
+    @Logged
+    @Authenticated
+    @RequiresRole(Role.ADMIN)
+    async listUsers(req: Request, res: Response) {
+        const page = await this.userService.listUsers(this.parseUserQuery(req.query));
+
+        return res.json({ ...page, items: page.items.map(toUserView) });
+    }
 
-            if (err instanceof BaseError) {
-                return res.status(err.statusCode).json({
-                    error: err.message,
-                    code: err.code
-                });
-            }
+    @Logged
+    @Authenticated
+    @RequiresRole(Role.ADMIN)
+    async disableUser(req: Request, res: Response) {
+        const user = await this.userService.setDisabled(req.params.id as string, true, AuthContext.get());
 
-            return res.status(500).json({ error: "Internal error" });
+        return res.json(toUserView(user));
+    }
+
+    @Logged
+    @Authenticated
+    @RequiresRole(Role.ADMIN)
+    async enableUser(req: Request, res: Response) {
+        const user = await this.userService.setDisabled(req.params.id as string, false, AuthContext.get());
+
+        return res.json(toUserView(user));
+    }
+
+    @Logged
+    @Authenticated
+    @RequiresRole(Role.ADMIN)
+    async changeUserRole(req: Request, res: Response) {
+        const { role } = req.body as ChangeRoleDTO;
+        const user = await this.userService.changeRole(req.params.id as string, role, AuthContext.get());
+
+        return res.json(toUserView(user));
+    }
+
+    private parseUserQuery(params: Request["query"]): UserQuery {
+        const role = QueryParams.single(params, "role");
+        if (role && !AccessPolicy.isRole(role)) {
+            throw new ValidationError("role must be USER or ADMIN");
         }
+
+        const disabled = QueryParams.single(params, "disabled");
+        if (disabled && !['true', 'false'].includes(disabled)) {
+            throw new ValidationError("disabled must be true or false");
+        }
+
+        const search = QueryParams.single(params, "search")?.trim();
+
+        return {
+            search: search || undefined,
+            role: role as Role | undefined,
+            disabled: disabled === undefined ? undefined : disabled === "true",
+            ...QueryParams.page(params)
+        };
     }
 }
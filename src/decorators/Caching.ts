@@ -0,0 +1,75 @@
+import { CacheService } from "../services/CacheService";
+import { TransactionManager } from "../utils/TransactionManager";
+import { AsyncMethod, AsyncMethodContext, describeMethod } from "./types";
+
+interface CachingTarget {
+    cacheService?: CacheService;
+    transactionManager?: TransactionManager;
+}
+
+function resolveCache(instance: unknown, context: { name: string | symbol }): CacheService {
+    const cacheService = (instance as CachingTarget).cacheService;
+    if (!cacheService) {
+        throw new Error(`${describeMethod(instance, context)} uses caching but has no cacheService`);
+    }
+    return cacheService;
+}
+
+export interface CachedOptions<KeyArgs extends any[], Result> {
+    ttl?: number;
+    // Tags may depend on the loaded value, e.g. the owner of a task
+    tags?: (result: Result, ...args: KeyArgs) => string[];
+}
+
+/**
+ * Returns the cached value for the key built from the arguments, or runs the
+ * method (once, however many callers miss concurrently) and caches its result.
+ */
+export function Cached<KeyArgs extends any[], Result = any>(
+    key: (...args: KeyArgs) => string,
+    options: CachedOptions<KeyArgs, Result> = {}
+) {
+    return function <This, Args extends [...KeyArgs, ...any[]], Return extends Result>(
+        target: AsyncMethod<This, Args, Return>,
+        context: AsyncMethodContext<This, Args, Return>
+    ): AsyncMethod<This, Args, Return> {
+        return async function (this: This, ...args: Args): Promise<Return> {
+            const cacheService = resolveCache(this, context);
+            const keyArgs = args as unknown as KeyArgs;
+
+            return cacheService.getOrLoad(key(...keyArgs), () => target.apply(this, args), result => ({
+                ttl: options.ttl,
+                tags: options.tags?.(result, ...keyArgs)
+            }));
+        };
+    };
+}
+
+/**
+ * Evicts every entry carrying one of the tags built from the method's result
+ * and arguments, once the method has completed successfully. Inside a
+ * transaction the entries are evicted again when it ends, since other
+ * requests may have cached the uncommitted records in between.
+ */
+export function CacheEvict<KeyArgs extends any[], Result = any>(
+    tags: (result: Result, ...args: KeyArgs) => string[]
+) {
+    return function <This, Args extends [...KeyArgs, ...any[]], Return extends Result>(
+        target: AsyncMethod<This, Args, Return>,
+        context: AsyncMethodContext<This, Args, Return>
+    ): AsyncMethod<This, Args, Return> {
+        return async function (this: This, ...args: Args): Promise<Return> {
+            const cacheService = resolveCache(this, context);
+            const result = await target.apply(this, args);
+            const evicted = tags(result, ...(args as unknown as KeyArgs));
+
+            await cacheService.invalidateTags(evicted);
+            const transactionManager = (this as CachingTarget).transactionManager;
+            if (transactionManager?.inTransaction()) {
+                await transactionManager.afterTransaction(() => cacheService.invalidateTags(evicted));
+            }
+
+            return result;
+        };
+    };
+}
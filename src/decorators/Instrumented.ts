@@ -0,0 +1,57 @@
+import { Metrics } from "../utils/Metrics";
+
+const methodDuration = Metrics.histogram(
+    "service_method_duration_seconds",
+    "Duration of service method calls in seconds",
+    ["class", "method", "outcome"]
+);
+const methodFailures = Metrics.counter(
+    "service_method_failures_total",
+    "Service method calls that threw",
+    ["class", "method"]
+);
+
+/**
+ * Class decorator that times every method on the prototype and counts the
+ * calls that fail, so services do not need per-method instrumentation.
+ */
+export function Instrumented<T extends abstract new (...args: any[]) => any>(
+    target: T,
+    context: ClassDecoratorContext<T>
+): void {
+    const className = String(context.name);
+    const prototype = target.prototype;
+
+    for (const name of Object.getOwnPropertyNames(prototype)) {
+        const descriptor = Object.getOwnPropertyDescriptor(prototype, name);
+        if (name === "constructor" || !descriptor || typeof descriptor.value !== "function") {
+            continue;
+        }
+
+        const original = descriptor.value as (...args: any[]) => any;
+        const labels = { class: className, method: name };
+
+        prototype[name] = function (this: unknown, ...args: any[]) {
+            const stopTimer = methodDuration.startTimer(labels);
+            const fail = (error: unknown) => {
+                stopTimer({ outcome: "error" });
+                methodFailures.inc(labels);
+                throw error;
+            };
+
+            try {
+                const result = original.apply(this, args);
+                if (result instanceof Promise) {
+                    return result.then(value => {
+                        stopTimer({ outcome: "success" });
+                        return value;
+                    }, fail);
+                }
+                stopTimer({ outcome: "success" });
+                return result;
+            } catch (error) {
+                return fail(error);
+            }
+        };
+    }
+}
@@ -0,0 +1,19 @@
+import { Logger } from "../utils/Logger";
+import { AsyncMethod, AsyncMethodContext, describeMethod } from "./types";
+
+export function Logged<This, Args extends any[], Return>(
+    target: AsyncMethod<This, Args, Return>,
+    context: AsyncMethodContext<This, Args, Return>
+): AsyncMethod<This, Args, Return> {
+    return async function (this: This, ...args: Args): Promise<Return> {
+        const name = describeMethod(this, context);
+        Logger.info(`Entering ${name}`);
+
+        try {
+            return await target.apply(this, args);
+        } catch (error) {
+            Logger.error(`Error in ${name}`, error);
+            throw error;
+        }
+    };
+}
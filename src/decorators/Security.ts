@@ -0,0 +1,33 @@
+import { Role } from "../types/DTOs";
+import { AuthContext } from "../utils/AuthContext";
+import { ForbiddenError, UnauthorizedError } from "../errors/BaseError";
+import { AsyncMethod, AsyncMethodContext } from "./types";
+
+/**
+ * Rejects the call unless the request carried a valid bearer token.
+ */
+export function Authenticated<This, Args extends any[], Return>(
+    target: AsyncMethod<This, Args, Return>,
+    _context: AsyncMethodContext<This, Args, Return>
+): AsyncMethod<This, Args, Return> {
+    return async function (this: This, ...args: Args): Promise<Return> {
+        if (!AuthContext.isAuthenticated()) {
+            throw new UnauthorizedError("Authentication required");
+        }
+        return target.apply(this, args);
+    };
+}
+
+export function RequiresRole(role: Role) {
+    return function <This, Args extends any[], Return>(
+        target: AsyncMethod<This, Args, Return>,
+        _context: AsyncMethodContext<This, Args, Return>
+    ): AsyncMethod<This, Args, Return> {
+        return async function (this: This, ...args: Args): Promise<Return> {
+            if (AuthContext.getRole() !== role) {
+                throw new ForbiddenError(`${role} role required`);
+            }
+            return target.apply(this, args);
+        };
+    };
+}
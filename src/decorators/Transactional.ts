@@ -0,0 +1,20 @@
+import { TransactionManager } from "../utils/TransactionManager";
+import { AsyncMethod, AsyncMethodContext, describeMethod } from "./types";
+
+interface TransactionalTarget {
+    transactionManager?: TransactionManager;
+}
+
+export function Transactional<This, Args extends any[], Return>(
+    target: AsyncMethod<This, Args, Return>,
+    context: AsyncMethodContext<This, Args, Return>
+): AsyncMethod<This, Args, Return> {
+    return async function (this: This, ...args: Args): Promise<Return> {
+        const transactionManager = (this as TransactionalTarget).transactionManager;
+        if (!transactionManager) {
+            throw new Error(`${describeMethod(this, context)} is @Transactional but has no transactionManager`);
+        }
+
+        return transactionManager.run(() => target.apply(this, args));
+    };
+}
@@ -0,0 +1,5 @@
+export { Logged } from "./Logged";
+export { Transactional } from "./Transactional";
+export { Cached, CacheEvict } from "./Caching";
+export { Authenticated, RequiresRole } from "./Security";
+export { Instrumented } from "./Instrumented";
@@ -0,0 +1,9 @@
+export type AsyncMethod<This, Args extends any[], Return> = (this: This, ...args: Args) => Promise<Return>;
+
+export type AsyncMethodContext<This, Args extends any[], Return> =
+    ClassMethodDecoratorContext<This, AsyncMethod<This, Args, Return>>;
+
+export function describeMethod(instance: unknown, context: { name: string | symbol }): string {
+    const className = (instance as object | undefined)?.constructor?.name ?? "Anonymous";
+    return `${className}.${String(context.name)}`;
+}
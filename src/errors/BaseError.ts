@@ -28,8 +28,31 @@ export class ForbiddenError extends BaseError {
     }
 }
 
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
 export class ValidationError extends BaseError {
-    constructor(message: string = "Validation failed") {
+    constructor(
+        message: string = "Validation failed",
+        public fields: FieldError[] = []
+    ) {
         super(message, 400, "VALIDATION_ERROR");
     }
 }
+
+export class ConflictError extends BaseError {
+    constructor(message: string = "Resource conflict") {
+        super(message, 409, "CONFLICT");
+    }
+}
+
+export class RateLimitError extends BaseError {
+    constructor(
+        message: string = "Too many requests",
+        public retryAfterSeconds?: number
+    ) {
+        super(message, 429, "RATE_LIMITED");
+    }
+}
@@ -1,49 +1,211 @@
 import express from "express";
+import path from "path";
 import { UserController } from "./controllers/UserController";
 import { TaskController } from "./controllers/TaskController";
+import { ProjectController } from "./controllers/ProjectController";
 import { UserService } from "./services/UserService";
 import { TaskService } from "./services/TaskService";
+import { ProjectService } from "./services/ProjectService";
 import { AuthService } from "./services/AuthService";
 import { CacheService } from "./services/CacheService";
+import { CacheStore } from "./services/cache/CacheStore";
+import { MemoryCacheStore } from "./services/cache/MemoryCacheStore";
+import { RedisCacheStore } from "./services/cache/RedisCacheStore";
+import { RedisInvalidationBus } from "./services/cache/CacheInvalidationBus";
 import { UserRepository } from "./repositories/UserRepository";
 import { TaskRepository } from "./repositories/TaskRepository";
+import { ProjectRepository } from "./repositories/ProjectRepository";
+import { FileUserRepository } from "./repositories/FileUserRepository";
+import { FileTaskRepository } from "./repositories/FileTaskRepository";
+import { FileProjectRepository } from "./repositories/FileProjectRepository";
+import { IUserRepository } from "./repositories/IUserRepository";
+import { ITaskRepository } from "./repositories/ITaskRepository";
+import { IProjectRepository } from "./repositories/IProjectRepository";
+import { RefreshTokenRepository } from "./repositories/RefreshTokenRepository";
+import { PasswordResetTokenRepository } from "./repositories/PasswordResetTokenRepository";
+import { TokenRevocationList } from "./services/TokenRevocationList";
+import { Notifier } from "./services/notifications/Notifier";
+import { ConsoleNotifier } from "./services/notifications/ConsoleNotifier";
+import { OutboxNotifier } from "./services/notifications/OutboxNotifier";
+import { WebhookNotifier } from "./services/notifications/WebhookNotifier";
+import { DeadlineScheduler } from "./services/DeadlineScheduler";
+import { AuditLog } from "./services/AuditLog";
+import { LoginThrottle } from "./services/LoginThrottle";
 import { TransactionManager } from "./utils/TransactionManager";
+import { SystemClock } from "./utils/Clock";
 import { Logger } from "./utils/Logger";
+import { authContextMiddleware } from "./middleware/authContext";
+import { bearerAuthMiddleware } from "./middleware/bearerAuth";
+import { config, NotifierDriver } from "./config";
+import { validateBody } from "./middleware/validateBody";
+import { requestIdMiddleware } from "./middleware/requestId";
+import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
+import { httpMetricsMiddleware } from "./middleware/httpMetrics";
+import { rateLimitMiddleware } from "./middleware/rateLimit";
+import { CONTENT_TYPE as METRICS_CONTENT_TYPE, Metrics } from "./utils/Metrics";
+import {
+    ChangeRoleSchema, CreateProjectSchema, CreateTaskSchema, CreateUserSchema, DeleteMultipleTasksSchema, ForgotPasswordSchema,
+    LoginSchema, ProjectMemberSchema, RefreshTokenSchema, ResetPasswordSchema, ShareTaskSchema, TaskDependencySchema,
+    UpdateProfileSchema, UpdateProjectSchema, UpdateTaskSchema, VerifyEmailSchema
+} from "./validation/schemas";
+
+Logger.configure(config.logging);
 
 const app = express();
+app.set("trust proxy", config.trustProxy);
+app.use(requestIdMiddleware);
+app.use(httpMetricsMiddleware);
+app.use(rateLimitMiddleware("global", config.rateLimits.global));
 app.use(express.json());
 
-// Initialize repositories
-const userRepo = new UserRepository();
-const taskRepo = new TaskRepository();
-
 // Initialize supporting services
-const authService = new AuthService();
-const cacheService = new CacheService();
+let cacheStore: CacheStore;
+let invalidationBus: RedisInvalidationBus | undefined;
+if (config.cache.driver === "redis") {
+    Logger.info(`Caching in ${config.cache.redisUrl}`);
+    cacheStore = new RedisCacheStore({
+        url: config.cache.redisUrl!,
+        keyPrefix: config.cache.keyPrefix,
+        defaultTtlMs: config.cache.defaultTtlMs
+    });
+} else {
+    cacheStore = new MemoryCacheStore(config.cache);
+    // Each instance caches locally, so updates made elsewhere arrive over pub/sub
+    if (config.cache.redisUrl) {
+        Logger.info(`Sharing cache invalidations over ${config.cache.redisUrl}`);
+        invalidationBus = new RedisInvalidationBus(config.cache.redisUrl, config.cache.invalidationChannel);
+    }
+}
+const cacheService = new CacheService(cacheStore, invalidationBus);
 const transactionManager = new TransactionManager();
+const revocationList = new TokenRevocationList();
+function createNotifier(driver: NotifierDriver): Notifier {
+    switch (driver) {
+        case "outbox":
+            return new OutboxNotifier(config.notifications.outboxPath);
+        case "webhook":
+            return new WebhookNotifier(config.notifications.webhookUrl!);
+        case "console":
+            return new ConsoleNotifier();
+    }
+}
+const notifier = createNotifier(config.notifications.driver);
+const auditLog = new AuditLog(config.auditLogPath);
+
+// Initialize repositories
+let userRepo: IUserRepository;
+let taskRepo: ITaskRepository;
+let projectRepo: IProjectRepository;
+if (config.persistence.driver === "file") {
+    Logger.info(`Persisting data to ${path.resolve(config.persistence.dataDir)}`);
+    userRepo = new FileUserRepository(transactionManager, path.join(config.persistence.dataDir, "users.json"));
+    taskRepo = new FileTaskRepository(transactionManager, path.join(config.persistence.dataDir, "tasks.json"));
+    projectRepo = new FileProjectRepository(transactionManager, path.join(config.persistence.dataDir, "projects.json"));
+} else {
+    userRepo = new UserRepository(transactionManager);
+    taskRepo = new TaskRepository(transactionManager);
+    projectRepo = new ProjectRepository(transactionManager);
+}
+const refreshTokenRepo = new RefreshTokenRepository();
+const passwordResetTokenRepo = new PasswordResetTokenRepository();
 
 // Initialize services
-const userService = new UserService(userRepo, authService);
-const taskService = new TaskService(taskRepo, userRepo, cacheService, transactionManager);
+const authService = new AuthService(config.jwt, refreshTokenRepo, revocationList, passwordResetTokenRepo);
+const taskService = new TaskService(
+    taskRepo, userRepo, projectRepo, cacheService, transactionManager, new SystemClock()
+);
+const projectService = new ProjectService(projectRepo, userRepo, taskService, transactionManager);
+const userService = new UserService(
+    userRepo, authService, taskService, projectService, notifier, auditLog,
+    new LoginThrottle(config.loginThrottle), transactionManager
+);
+const deadlineScheduler = new DeadlineScheduler(
+    taskService, userRepo, createNotifier(config.reminders.driver), config.reminders
+);
 
 // Initialize controllers
 const userController = new UserController(userService);
 const taskController = new TaskController(taskService);
+const projectController = new ProjectController(projectService);
+
+app.use(authContextMiddleware);
+app.use(bearerAuthMiddleware(authService, userRepo));
+
+app.get("/metrics", (_req, res) => {
+    res.type(METRICS_CONTENT_TYPE).send(Metrics.render());
+});
+
+// Routes that take credentials or tokens share a stricter per-client budget
+const authRateLimit = rateLimitMiddleware("auth", config.rateLimits.auth);
 
 // User routes
-app.post("/register", (req, res) => userController.register(req, res));
-app.post("/login", (req, res) => userController.login(req, res));
+app.post("/register", authRateLimit, validateBody(CreateUserSchema), (req, res) => userController.register(req, res));
+app.post("/login", authRateLimit, validateBody(LoginSchema), (req, res) => userController.login(req, res));
+app.post("/token/refresh", authRateLimit, validateBody(RefreshTokenSchema), (req, res) => userController.refreshToken(req, res));
+app.post("/email/verify", authRateLimit, validateBody(VerifyEmailSchema), (req, res) => userController.verifyEmail(req, res));
+app.post("/email/verify/resend", authRateLimit, (req, res) => userController.resendVerificationEmail(req, res));
+app.post("/password/forgot", authRateLimit, validateBody(ForgotPasswordSchema), (req, res) => userController.forgotPassword(req, res));
+app.post("/password/reset", authRateLimit, validateBody(ResetPasswordSchema), (req, res) => userController.resetPassword(req, res));
+app.post("/logout", (req, res) => userController.logout(req, res));
 app.get("/profile", (req, res) => userController.getProfile(req, res));
+app.put("/profile", validateBody(UpdateProfileSchema), (req, res) => userController.updateProfile(req, res));
+app.delete("/profile", (req, res) => userController.deleteProfile(req, res));
+
+// Admin routes
+app.get("/admin/users", (req, res) => userController.listUsers(req, res));
+app.post("/admin/users/:id/disable", (req, res) => userController.disableUser(req, res));
+app.post("/admin/users/:id/enable", (req, res) => userController.enableUser(req, res));
+app.put("/admin/users/:id/role", validateBody(ChangeRoleSchema), (req, res) => userController.changeUserRole(req, res));
 
 // Task routes
-app.post("/tasks", (req, res) => taskController.createTask(req, res));
+app.post("/tasks", validateBody(CreateTaskSchema), (req, res) => taskController.createTask(req, res));
 app.get("/tasks/owner/list", (req, res) => taskController.getTasksByOwner(req, res));
+app.get("/tasks/assigned", (req, res) => taskController.getAssignedTasks(req, res));
+app.get("/tasks/overdue", (req, res) => taskController.getOverdueTasks(req, res));
 app.get("/tasks/:id", (req, res) => taskController.getTask(req, res));
-app.put("/tasks/:id", (req, res) => taskController.editTask(req, res));
+app.get("/tasks/:id/history", (req, res) => taskController.getTaskHistory(req, res));
+app.get("/tasks/:id/subtasks", (req, res) => taskController.getSubtasks(req, res));
+app.post("/tasks/:id/dependencies", validateBody(TaskDependencySchema), (req, res) => taskController.addDependency(req, res));
+app.delete("/tasks/:id/dependencies/:blockerId", (req, res) => taskController.removeDependency(req, res));
+app.post("/tasks/:id/reopen", (req, res) => taskController.reopenTask(req, res));
+app.post("/tasks/:id/shares", validateBody(ShareTaskSchema), (req, res) => taskController.shareTask(req, res));
+app.delete("/tasks/:id/shares/:userId", (req, res) => taskController.unshareTask(req, res));
+app.put("/tasks/:id", validateBody(UpdateTaskSchema), (req, res) => taskController.editTask(req, res));
 app.delete("/tasks/:id", (req, res) => taskController.deleteTask(req, res));
 app.delete("/tasks/owner/:userId", (req, res) => taskController.deleteTasksByOwner(req, res));
-app.post("/tasks/delete-multiple", (req, res) => taskController.deleteMultipleTasks(req, res));
+app.post("/tasks/delete-multiple", validateBody(DeleteMultipleTasksSchema), (req, res) => taskController.deleteMultipleTasks(req, res));
 
-app.listen(3000, () => {
-    Logger.info("Server running on port 3000");
-});
+// Project routes
+app.post("/projects", validateBody(CreateProjectSchema), (req, res) => projectController.createProject(req, res));
+app.get("/projects", (req, res) => projectController.listProjects(req, res));
+app.get("/projects/:id", (req, res) => projectController.getProject(req, res));
+app.put("/projects/:id", validateBody(UpdateProjectSchema), (req, res) => projectController.editProject(req, res));
+app.delete("/projects/:id", (req, res) => projectController.deleteProject(req, res));
+app.post("/projects/:id/archive", (req, res) => projectController.archiveProject(req, res));
+app.post("/projects/:id/unarchive", (req, res) => projectController.unarchiveProject(req, res));
+app.post("/projects/:id/members", validateBody(ProjectMemberSchema), (req, res) => projectController.addMember(req, res));
+app.delete("/projects/:id/members/:userId", (req, res) => projectController.removeMember(req, res));
+
+// Error handling, must come after all routes
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+async function bootstrap(): Promise<void> {
+    if (config.bootstrapAdmin) {
+        await userService.bootstrapAdmin(config.bootstrapAdmin.email, config.bootstrapAdmin.password);
+    }
+}
+
+bootstrap()
+    .then(() => {
+        app.listen(config.port, () => {
+            Logger.info(`Server running on port ${config.port}`);
+        });
+        if (config.reminders.enabled) {
+            deadlineScheduler.start();
+        }
+    })
+    .catch(error => {
+        Logger.error("Startup failed", error);
+        process.exit(1);
+    });
@@ -0,0 +1,68 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import { buildUser } from "../testing/fixtures";
+import { authContextMiddleware } from "./authContext";
+import { bearerAuthMiddleware } from "./bearerAuth";
+import { AuthService } from "../services/AuthService";
+import { TokenRevocationList } from "../services/TokenRevocationList";
+import { RefreshTokenRepository } from "../repositories/RefreshTokenRepository";
+import { PasswordResetTokenRepository } from "../repositories/PasswordResetTokenRepository";
+import { UserRepository } from "../repositories/UserRepository";
+import { TransactionManager } from "../utils/TransactionManager";
+import { AuthContext } from "../utils/AuthContext";
+import { Role } from "../types/DTOs";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const currentUser = () => AuthContext.isAuthenticated() ? AuthContext.getUserId() : null;
+
+describe("authContextMiddleware", () => {
+    const authService = new AuthService(
+        { secret: "test-secret", expiresIn: "15m", refreshTokenTtlSeconds: 3600, emailVerificationExpiresIn: "1d", passwordResetTtlSeconds: 3600 },
+        new RefreshTokenRepository(),
+        new TokenRevocationList(),
+        new PasswordResetTokenRepository()
+    );
+    const userRepository = new UserRepository(new TransactionManager());
+    let server: Server;
+    let baseUrl: string;
+
+    before(async () => {
+        const app = express();
+        app.use(authContextMiddleware);
+        app.use(bearerAuthMiddleware(authService, userRepository));
+        // Reads the identity on both sides of an await, so an interleaved
+        // request that leaked its identity would show up in either
+        app.get("/whoami", async (_req, res) => {
+            const before = currentUser();
+            await delay(Math.random() * 20);
+            res.json({ before, after: currentUser() });
+        });
+
+        server = app.listen(0);
+        await new Promise(resolve => server.once("listening", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    it("keeps each request's identity when many overlap", async () => {
+        const userIds = await Promise.all(Array.from({ length: 60 }, async (_, i) =>
+            i % 4 === 0 ? null : (await userRepository.save(buildUser())).id
+        ));
+
+        const responses = await Promise.all(userIds.map(async userId => {
+            const headers: Record<string, string> = userId
+                ? { Authorization: `Bearer ${authService.generateToken(userId, Role.USER, crypto.randomUUID())}` }
+                : {};
+            const response = await fetch(`${baseUrl}/whoami`, { headers });
+            return { userId, body: await response.json() as { before: string | null; after: string | null } };
+        }));
+
+        for (const { userId, body } of responses) {
+            assert.deepEqual(body, { before: userId, after: userId });
+        }
+    });
+});
@@ -0,0 +1,10 @@
+import { NextFunction, Request, Response } from "express";
+import { AuthContext } from "../utils/AuthContext";
+
+/**
+ * Opens a fresh AuthContext scope for the request; everything the handler
+ * awaits afterwards sees only this request's identity.
+ */
+export function authContextMiddleware(_req: Request, _res: Response, next: NextFunction): void {
+    AuthContext.run(() => next());
+}
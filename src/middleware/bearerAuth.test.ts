@@ -0,0 +1,79 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import { buildUser } from "../testing/fixtures";
+import { authContextMiddleware } from "./authContext";
+import { bearerAuthMiddleware } from "./bearerAuth";
+import { errorHandler } from "./errorHandler";
+import { AuthService } from "../services/AuthService";
+import { TokenRevocationList } from "../services/TokenRevocationList";
+import { RefreshTokenRepository } from "../repositories/RefreshTokenRepository";
+import { PasswordResetTokenRepository } from "../repositories/PasswordResetTokenRepository";
+import { UserRepository } from "../repositories/UserRepository";
+import { TransactionManager } from "../utils/TransactionManager";
+import { AuthContext } from "../utils/AuthContext";
+import { Role } from "../types/DTOs";
+
+describe("bearerAuthMiddleware", () => {
+    // A fresh revocation list, as on a restarted or different instance
+    const authService = new AuthService(
+        { secret: "test-secret", expiresIn: "15m", refreshTokenTtlSeconds: 3600, emailVerificationExpiresIn: "1d", passwordResetTtlSeconds: 3600 },
+        new RefreshTokenRepository(),
+        new TokenRevocationList(),
+        new PasswordResetTokenRepository()
+    );
+    const userRepository = new UserRepository(new TransactionManager());
+    let server: Server;
+    let baseUrl: string;
+
+    before(async () => {
+        const app = express();
+        app.use(authContextMiddleware);
+        app.use(bearerAuthMiddleware(authService, userRepository));
+        app.get("/whoami", (_req, res) => {
+            res.json({ userId: AuthContext.isAuthenticated() ? AuthContext.getUserId() : null });
+        });
+        app.use(errorHandler);
+
+        server = app.listen(0);
+        await new Promise(resolve => server.once("listening", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    const whoami = (userId: string) => fetch(`${baseUrl}/whoami`, {
+        headers: { Authorization: `Bearer ${authService.generateToken(userId, Role.USER, crypto.randomUUID())}` }
+    });
+
+    it("accepts a token of an active user", async () => {
+        const user = await userRepository.save(buildUser());
+
+        const response = await whoami(user.id);
+
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { userId: user.id });
+    });
+
+    it("rejects a token of a user disabled after it was issued", async () => {
+        const user = await userRepository.save(buildUser());
+        const token = authService.generateToken(user.id, Role.USER, crypto.randomUUID());
+        await userRepository.update(user.id, { disabled: true });
+
+        const response = await fetch(`${baseUrl}/whoami`, { headers: { Authorization: `Bearer ${token}` } });
+
+        assert.equal(response.status, 401);
+        assert.equal(response.headers.get("www-authenticate"), 'Bearer error="invalid_token"');
+    });
+
+    it("rejects a token of a deleted user", async () => {
+        const user = await userRepository.save(buildUser());
+        await userRepository.delete(user.id);
+
+        const response = await whoami(user.id);
+
+        assert.equal(response.status, 401);
+    });
+});
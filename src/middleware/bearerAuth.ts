@@ -0,0 +1,42 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { AuthService } from "../services/AuthService";
+import { IUserRepository } from "../repositories/IUserRepository";
+import { AuthContext } from "../utils/AuthContext";
+import { UnauthorizedError } from "../errors/BaseError";
+import { Logger } from "../utils/Logger";
+
+/**
+ * Verifies an `Authorization: Bearer <token>` header and fills the AuthContext
+ * from its claims. Requests without the header pass through anonymously;
+ * routes that need a user enforce it with `@Authenticated`. The account is
+ * looked up on every request, so a token stops working as soon as its user is
+ * disabled or deleted, whichever instance handles the request.
+ */
+export function bearerAuthMiddleware(authService: AuthService, userRepository: IUserRepository): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const header = req.headers.authorization;
+        if (!header) {
+            return next();
+        }
+
+        try {
+            const [scheme, token] = header.split(" ");
+            if (scheme !== "Bearer" || !token) {
+                throw new UnauthorizedError("Authorization header must use the Bearer scheme");
+            }
+
+            const claims = authService.verifyToken(token);
+            const user = await userRepository.findById(claims.id);
+            if (!user || user.disabled) {
+                throw new UnauthorizedError("Account is disabled or no longer exists");
+            }
+
+            AuthContext.set({ userId: claims.id, role: claims.role, sessionId: claims.sessionId });
+            Logger.addContext({ userId: claims.id });
+            next();
+        } catch (err) {
+            res.setHeader("WWW-Authenticate", 'Bearer error="invalid_token"');
+            next(err instanceof UnauthorizedError ? err : new UnauthorizedError());
+        }
+    };
+}
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import "../testing/fixtures";
+import { errorHandler } from "./errorHandler";
+import { RateLimitError } from "../errors/BaseError";
+
+// Records what the handler does to the response; setting headers after they are sent throws, as in Node
+function fakeResponse(headersSent: boolean) {
+    const calls = { headers: {} as Record<string, string>, status: undefined as number | undefined, body: undefined as unknown };
+    const res = {
+        headersSent,
+        locals: {},
+        setHeader(name: string, value: string) {
+            if (this.headersSent) throw new Error("ERR_HTTP_HEADERS_SENT");
+            calls.headers[name] = value;
+        },
+        status(code: number) {
+            calls.status = code;
+            return this;
+        },
+        type() {
+            return this;
+        },
+        json(body: unknown) {
+            calls.body = body;
+            return this;
+        }
+    };
+    return { res: res as unknown as Response, calls };
+}
+
+const req = { method: "GET", originalUrl: "/tasks" } as Request;
+
+describe("errorHandler", () => {
+    it("answers rate limiting with 429 and Retry-After", () => {
+        const { res, calls } = fakeResponse(false);
+
+        errorHandler(new RateLimitError("Too many requests", 4.2), req, res, () => undefined);
+
+        assert.equal(calls.status, 429);
+        assert.equal(calls.headers["Retry-After"], "5");
+    });
+
+    it("leaves a response that has already started alone", () => {
+        const { res, calls } = fakeResponse(true);
+
+        assert.doesNotThrow(() => errorHandler(new RateLimitError("Too many requests", 5), req, res, () => undefined));
+        assert.equal(calls.status, undefined);
+    });
+});
@@ -0,0 +1,79 @@
+import http from "http";
+import { NextFunction, Request, Response } from "express";
+import { BaseError, FieldError, NotFoundError, RateLimitError, ValidationError } from "../errors/BaseError";
+import { Logger } from "../utils/Logger";
+
+/**
+ * RFC 7807 problem details, extended with our error code, field errors and
+ * the request id.
+ */
+export interface ProblemDetails {
+    type: string;
+    title: string;
+    status: number;
+    detail: string;
+    instance: string;
+    code: string;
+    requestId?: string;
+    errors?: FieldError[];
+}
+
+// Errors raised by express.json() for malformed or oversized bodies
+interface HttpError extends Error {
+    status: number;
+    expose?: boolean;
+}
+
+const isClientHttpError = (err: unknown): err is HttpError =>
+    err instanceof Error && typeof (err as HttpError).status === "number" &&
+    (err as HttpError).status >= 400 && (err as HttpError).status < 500;
+
+function toBaseError(err: unknown): BaseError {
+    if (err instanceof BaseError) {
+        return err;
+    }
+    if (isClientHttpError(err)) {
+        return new BaseError(err.expose ? err.message : "Bad request", err.status, "BAD_REQUEST");
+    }
+    return new BaseError("Internal error");
+}
+
+export function notFoundHandler(req: Request, _res: Response, next: NextFunction): void {
+    next(new NotFoundError(`No route for ${req.method} ${req.path}`));
+}
+
+/**
+ * The one place where errors become HTTP responses; controllers and
+ * middleware just throw (or pass the error to `next`).
+ */
+export function errorHandler(err: unknown, req: Request, res: Response, _next: NextFunction): void {
+    const error = toBaseError(err);
+
+    if (error.statusCode >= 500) {
+        Logger.error(`Unhandled error on ${req.method} ${req.originalUrl}`, err);
+    }
+
+    const problem: ProblemDetails = {
+        type: error.statusCode >= 500 ? "about:blank" : `/problems/${error.code.toLowerCase().replace(/_/g, "-")}`,
+        title: http.STATUS_CODES[error.statusCode] ?? "Error",
+        status: error.statusCode,
+        detail: error.message,
+        instance: req.originalUrl,
+        code: error.code,
+        requestId: res.locals.requestId
+    };
+
+    if (error instanceof ValidationError && error.fields.length > 0) {
+        problem.errors = error.fields;
+    }
+
+    if (res.headersSent) {
+        return;
+    }
+
+    if (error instanceof RateLimitError && error.retryAfterSeconds !== undefined) {
+        res.setHeader("Retry-After", String(Math.ceil(error.retryAfterSeconds)));
+    }
+
+    res.status(error.statusCode).type("application/problem+json").json(problem);
+}
@@ -0,0 +1,30 @@
+import { NextFunction, Request, Response } from "express";
+import { Metrics } from "../utils/Metrics";
+
+const requestsTotal = Metrics.counter(
+    "http_requests_total",
+    "HTTP requests by method, route and status",
+    ["method", "route", "status"]
+);
+const requestDuration = Metrics.histogram(
+    "http_request_duration_seconds",
+    "HTTP request latency in seconds",
+    ["method", "route", "status"]
+);
+
+/**
+ * Records count and latency for every request, labelled with the matched route
+ * pattern (not the raw path) to keep label cardinality bounded.
+ */
+export function httpMetricsMiddleware(req: Request, res: Response, next: NextFunction): void {
+    const stopTimer = requestDuration.startTimer();
+
+    res.on("finish", () => {
+        const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+        const labels = { method: req.method, route, status: String(res.statusCode) };
+        requestsTotal.inc(labels);
+        stopTimer(labels);
+    });
+
+    next();
+}
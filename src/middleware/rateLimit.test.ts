@@ -0,0 +1,63 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import "../testing/fixtures";
+import { rateLimitMiddleware } from "./rateLimit";
+import { errorHandler } from "./errorHandler";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("rateLimitMiddleware", () => {
+    let server: Server;
+    let baseUrl: string;
+
+    before(async () => {
+        const app = express();
+        const strict = rateLimitMiddleware("strict", { capacity: 2, refillPerSecond: 0.5 });
+        const fast = rateLimitMiddleware("fast", { capacity: 1, refillPerSecond: 20 });
+        app.get("/strict", strict, (_req, res) => { res.json({ ok: true }); });
+        app.get("/other", strict, (_req, res) => { res.json({ ok: true }); });
+        app.get("/fast", fast, (_req, res) => { res.json({ ok: true }); });
+        app.use(errorHandler);
+
+        server = app.listen(0);
+        await new Promise(resolve => server.once("listening", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    it("rejects requests past the burst with 429 and Retry-After", async () => {
+        const statuses = [];
+        for (let i = 0; i < 2; i++) {
+            const response = await fetch(`${baseUrl}/strict`);
+            statuses.push(response.status);
+            assert.equal(response.headers.get("ratelimit-remaining"), String(1 - i));
+        }
+
+        const limited = await fetch(`${baseUrl}/strict`);
+
+        assert.deepEqual(statuses, [200, 200]);
+        assert.equal(limited.status, 429);
+        assert.equal(limited.headers.get("retry-after"), "2");
+        assert.equal(limited.headers.get("ratelimit-limit"), "2");
+        assert.equal(limited.headers.get("ratelimit-remaining"), "0");
+        assert.equal((await limited.json() as { code: string }).code, "RATE_LIMITED");
+    });
+
+    it("shares one allowance between the routes of a bucket but not across buckets", async () => {
+        assert.equal((await fetch(`${baseUrl}/other`)).status, 429);
+        assert.equal((await fetch(`${baseUrl}/fast`)).status, 200);
+    });
+
+    it("lets requests through again as the bucket refills", async () => {
+        await fetch(`${baseUrl}/fast`);
+        assert.equal((await fetch(`${baseUrl}/fast`)).status, 429);
+
+        await delay(100);
+
+        assert.equal((await fetch(`${baseUrl}/fast`)).status, 200);
+    });
+});
@@ -0,0 +1,58 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { RateLimitError } from "../errors/BaseError";
+import { Metrics } from "../utils/Metrics";
+
+const rejected = Metrics.counter("rate_limit_rejections_total", "Requests rejected by a rate limit", ["bucket"]);
+
+export interface RateLimitBucket {
+    // Requests a client may burst before being limited
+    capacity: number;
+    // Requests per second returned to each client's allowance
+    refillPerSecond: number;
+}
+
+interface BucketState {
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * Token-bucket rate limit per client IP. Every request takes a token; tokens
+ * come back at `refillPerSecond` up to `capacity`. Separate buckets (e.g. a
+ * strict one for auth routes on top of the global one) are independent.
+ */
+export function rateLimitMiddleware(name: string, bucket: RateLimitBucket): RequestHandler {
+    const clients: Map<string, BucketState> = new Map();
+
+    // A bucket that has refilled completely carries no information; forget it
+    const sweepTimer = setInterval(() => {
+        const now = Date.now();
+        for (const [key, state] of clients) {
+            if (state.tokens + (now - state.updatedAt) / 1000 * bucket.refillPerSecond >= bucket.capacity) {
+                clients.delete(key);
+            }
+        }
+    }, 60000);
+    sweepTimer.unref();
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        const now = Date.now();
+        const key = req.ip ?? "unknown";
+        const state = clients.get(key) ?? { tokens: bucket.capacity, updatedAt: now };
+
+        state.tokens = Math.min(bucket.capacity, state.tokens + (now - state.updatedAt) / 1000 * bucket.refillPerSecond);
+        state.updatedAt = now;
+        clients.set(key, state);
+
+        res.setHeader("RateLimit-Limit", String(bucket.capacity));
+        if (state.tokens < 1) {
+            rejected.inc({ bucket: name });
+            res.setHeader("RateLimit-Remaining", "0");
+            return next(new RateLimitError("Too many requests", (1 - state.tokens) / bucket.refillPerSecond));
+        }
+
+        state.tokens -= 1;
+        res.setHeader("RateLimit-Remaining", String(Math.floor(state.tokens)));
+        next();
+    };
+}
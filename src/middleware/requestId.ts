@@ -0,0 +1,21 @@
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { Logger } from "../utils/Logger";
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Tags each request with an id, reusing a well-formed incoming X-Request-Id so
+ * ids can be followed across services, and echoes it back in the response.
+ * Every log line written while handling the request carries the id.
+ */
+export function requestIdMiddleware(req: Request, res: Response, next: NextFunction): void {
+    const incoming = req.headers["x-request-id"];
+    const requestId = typeof incoming === "string" && REQUEST_ID_PATTERN.test(incoming)
+        ? incoming
+        : crypto.randomUUID();
+
+    res.locals.requestId = requestId;
+    res.setHeader("X-Request-Id", requestId);
+    Logger.runWithContext({ requestId }, () => next());
+}
@@ -0,0 +1,18 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { ValidationError } from "../errors/BaseError";
+import { Schema, validate } from "../validation/Schema";
+
+/**
+ * Rejects the request with every field error at once when its body does not
+ * match the schema.
+ */
+export function validateBody<T>(schema: Schema<T>): RequestHandler {
+    return (req: Request, _res: Response, next: NextFunction) => {
+        const errors = validate(schema, req.body);
+        if (errors.length === 0) {
+            return next();
+        }
+
+        next(new ValidationError("Validation failed", errors));
+    };
+}
@@ -0,0 +1,11 @@
+import { Project } from "../types/DTOs";
+import { JsonFileStore } from "../utils/JsonFileStore";
+import { TransactionManager } from "../utils/TransactionManager";
+import { ProjectRepository } from "./ProjectRepository";
+
+export class FileProjectRepository extends ProjectRepository {
+    constructor(transactionManager: TransactionManager, filePath: string) {
+        super(transactionManager);
+        this.persistTo(new JsonFileStore<Project>(filePath, ["createdAt", "archivedAt"]));
+    }
+}
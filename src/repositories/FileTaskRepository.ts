@@ -0,0 +1,14 @@
+import { Task } from "../types/DTOs";
+import { JsonFileStore } from "../utils/JsonFileStore";
+import { TransactionManager } from "../utils/TransactionManager";
+import { TaskRepository } from "./TaskRepository";
+
+export class FileTaskRepository extends TaskRepository {
+    constructor(transactionManager: TransactionManager, filePath: string) {
+        super(transactionManager);
+        this.persistTo(new JsonFileStore<Task>(
+            filePath,
+            ["deadline", "createdAt", "changedAt", "sharedAt", "until", "overdueAt"]
+        ));
+    }
+}
@@ -0,0 +1,18 @@
+import { User } from "../types/DTOs";
+import { AccessPolicy } from "../utils/AccessPolicy";
+import { JsonFileStore } from "../utils/JsonFileStore";
+import { TransactionManager } from "../utils/TransactionManager";
+import { UserRepository } from "./UserRepository";
+
+export class FileUserRepository extends UserRepository {
+    constructor(transactionManager: TransactionManager, filePath: string) {
+        super(transactionManager);
+        this.persistTo(new JsonFileStore<User>(filePath));
+
+        // Roles come back from disk as plain strings; refuse to start on one we do not know
+        const invalid = this.records.find(u => !AccessPolicy.isRole(u.role));
+        if (invalid) {
+            throw new Error(`User ${invalid.id} in ${filePath} has unknown role "${invalid.role}"`);
+        }
+    }
+}
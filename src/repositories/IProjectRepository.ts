@@ -0,0 +1,12 @@
+import { Project } from "../types/DTOs";
+
+export interface IProjectRepository {
+    save(project: Project): Promise<Project>;
+    findById(id: string): Promise<Project | undefined>;
+    // Projects the user owns or is a member of
+    findByUser(userId: string): Promise<Project[]>;
+    findByOwnerAndName(ownerId: string, name: string, excludeId?: string): Promise<Project | undefined>;
+    findArchivedIds(): Promise<string[]>;
+    update(id: string, updates: Partial<Project>): Promise<Project | undefined>;
+    delete(id: string): Promise<void>;
+}
@@ -0,0 +1,29 @@
+import { PaginatedResult, Task, TaskQuery } from "../types/DTOs";
+
+export interface ITaskRepository {
+    save(task: Task): Promise<Task>;
+    delete(id: string): Promise<void>;
+    findById(id: string): Promise<Task | undefined>;
+    update(id: string, updates: Partial<Task>): Promise<Task | undefined>;
+    // Only tasks outside any project; tasks in a project are checked per project
+    findByOwnerAndTitlePattern(ownerId: string, titlePattern: string, excludeId?: string): Promise<Task[]>;
+    findByProjectAndTitlePattern(projectId: string, titlePattern: string, excludeId?: string): Promise<Task[]>;
+    findByOwner(ownerId: string): Promise<Task[]>;
+    findByProject(projectId: string): Promise<Task[]>;
+    findByParent(parentId: string): Promise<Task[]>;
+    // Tasks not DONE or CANCELLED whose deadline is at or before `before`
+    findOpenDueBefore(before: Date): Promise<Task[]>;
+    // Tasks in `hiddenProjectIds` are left out unless the query asks for that project
+    queryByOwner(ownerId: string, query: TaskQuery, hiddenProjectIds?: string[]): Promise<PaginatedResult<Task>>;
+    queryByAssignee(assigneeId: string, query: TaskQuery, hiddenProjectIds?: string[]): Promise<PaginatedResult<Task>>;
+    // Moves every task of a project to another one, or out of any project; returns the tasks moved
+    moveProjectTasks(fromProjectId: string, toProjectId?: string): Promise<Task[]>;
+    // Returns the tasks deleted
+    deleteByProject(projectId: string): Promise<Task[]>;
+    // Drops the user from every task shared with them; returns the tasks changed
+    removeCollaborator(userId: string): Promise<Task[]>;
+    // Detaches subtasks of, and drops dependencies on, tasks that were deleted; returns the tasks changed
+    unlinkDeleted(ids: string[]): Promise<Task[]>;
+    deleteByOwner(ownerId: string): Promise<number>;
+    deleteMultiple(ids: string[]): Promise<number>;
+}
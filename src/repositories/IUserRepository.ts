@@ -0,0 +1,10 @@
+import { PaginatedResult, User, UserQuery } from "../types/DTOs";
+
+export interface IUserRepository {
+    save(user: User): Promise<User>;
+    findByEmail(email: string): Promise<User | undefined>;
+    findById(id: string): Promise<User | undefined>;
+    update(id: string, updates: Partial<User>): Promise<User | undefined>;
+    delete(id: string): Promise<void>;
+    query(query: UserQuery): Promise<PaginatedResult<User>>;
+}
@@ -0,0 +1,64 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { buildUser } from "../testing/fixtures";
+import { FileUserRepository } from "./FileUserRepository";
+import { TransactionManager } from "../utils/TransactionManager";
+
+const directory = path.join(os.tmpdir(), `repositories-${crypto.randomUUID()}`);
+
+function setUp() {
+    const filePath = path.join(directory, `${crypto.randomUUID()}.json`);
+    const transactionManager = new TransactionManager();
+    const repository = new FileUserRepository(transactionManager, filePath);
+    const storedIds = async (): Promise<string[]> => {
+        try {
+            return JSON.parse(await fs.readFile(filePath, "utf8")).map((user: { id: string }) => user.id);
+        } catch {
+            return [];
+        }
+    };
+    return { transactionManager, repository, storedIds };
+}
+
+describe("InMemoryRepository persistence", () => {
+    after(() => fs.rm(directory, { recursive: true, force: true }));
+
+    it("writes straight away outside a transaction", async () => {
+        const { repository, storedIds } = setUp();
+
+        const user = await repository.save(buildUser());
+
+        assert.deepEqual(await storedIds(), [user.id]);
+    });
+
+    it("writes nothing until the outermost transaction ends", async () => {
+        const { transactionManager, repository, storedIds } = setUp();
+        const first = buildUser();
+        const second = buildUser();
+
+        await transactionManager.run(async () => {
+            await repository.save(first);
+            await transactionManager.run(() => repository.save(second));
+            assert.deepEqual(await storedIds(), []);
+        });
+
+        assert.deepEqual(await storedIds(), [first.id, second.id]);
+    });
+
+    it("never writes the records of a transaction that rolls back", async () => {
+        const { transactionManager, repository, storedIds } = setUp();
+        const kept = await repository.save(buildUser());
+
+        await assert.rejects(transactionManager.run(async () => {
+            await repository.save(buildUser());
+            await repository.update(kept.id, { disabled: true });
+            throw new Error("rolled back");
+        }), /rolled back/);
+
+        assert.deepEqual(await storedIds(), [kept.id]);
+        assert.equal((await repository.findById(kept.id))?.disabled, false);
+    });
+});
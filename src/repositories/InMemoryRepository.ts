@@ -0,0 +1,111 @@
+import { JsonFileStore } from "../utils/JsonFileStore";
+import { TransactionManager } from "../utils/TransactionManager";
+
+/**
+ * Base for the repositories that keep their records in memory; data lives
+ * only as long as the process unless a file store is attached with
+ * `persistTo`, which loads it once at startup and writes through after every
+ * change. Inside a transaction the write waits until the outermost one has
+ * committed or rolled back, so a failed transaction never reaches the disk.
+ *
+ * Subclasses only change records through the protected write helpers, which
+ * record the undo step for an active transaction.
+ */
+export abstract class InMemoryRepository<T extends { id: string }> {
+    protected records: T[] = [];
+    private store?: JsonFileStore<T>;
+
+    constructor(private transactionManager: TransactionManager) { }
+
+    protected persistTo(store: JsonFileStore<T>): void {
+        this.store = store;
+        this.records = store.load();
+    }
+
+    protected async persist(): Promise<void> {
+        if (this.store) {
+            await this.transactionManager.afterTransaction(this.writeToStore);
+        }
+    }
+
+    // One function per repository, so a transaction writes each file once; after
+    // a rollback that write also replaces any uncommitted records an
+    // overlapping commit saved meanwhile
+    private writeToStore = async (): Promise<void> => {
+        await this.store?.save(this.records);
+    };
+
+    protected async insert(record: T): Promise<T> {
+        this.records.push(record);
+        this.recordUndo(() => this.removeRecord(record.id));
+        await this.persist();
+        return record;
+    }
+
+    protected async updateById(id: string, updates: Partial<T>): Promise<T | undefined> {
+        const index = this.records.findIndex(r => r.id === id);
+        if (index === -1) {
+            return undefined;
+        }
+        const previous = this.records[index];
+        const updated = { ...previous, ...updates };
+        this.records[index] = updated;
+        this.recordUndo(() => this.restoreRecord(previous));
+        await this.persist();
+        return updated;
+    }
+
+    /** Applies `change` to every record; returns the records it replaced with a new value. */
+    protected async updateWhere(change: (record: T) => T | undefined): Promise<T[]> {
+        const previous: T[] = [];
+        const changed: T[] = [];
+        this.records = this.records.map(r => {
+            const updated = change(r);
+            if (!updated) {
+                return r;
+            }
+            previous.push(r);
+            changed.push(updated);
+            return updated;
+        });
+
+        if (changed.length > 0) {
+            this.recordUndo(() => previous.forEach(r => this.restoreRecord(r)));
+            await this.persist();
+        }
+        return changed;
+    }
+
+    /** Removes every matching record; returns the ones removed. */
+    protected async removeWhere(predicate: (record: T) => boolean): Promise<T[]> {
+        const removed = this.records.filter(predicate);
+        if (removed.length > 0) {
+            this.records = this.records.filter(r => !predicate(r));
+            this.recordUndo(() => removed.forEach(r => this.restoreRecord(r)));
+            await this.persist();
+        }
+        return removed;
+    }
+
+    /**
+     * Undo steps only touch the records they are about, so rolling back one
+     * transaction leaves changes made by overlapping ones in place.
+     */
+    private recordUndo(undo: () => void): void {
+        this.transactionManager.recordUndo(undo);
+    }
+
+    // Puts the record back as it was, re-inserting it if it has been removed since
+    private restoreRecord(record: T): void {
+        const index = this.records.findIndex(r => r.id === record.id);
+        if (index === -1) {
+            this.records.push(record);
+        } else {
+            this.records[index] = record;
+        }
+    }
+
+    private removeRecord(id: string): void {
+        this.records = this.records.filter(r => r.id !== id);
+    }
+}
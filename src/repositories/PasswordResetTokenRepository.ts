@@ -0,0 +1,39 @@
+import { PasswordResetRecord } from "../types/DTOs";
+import { Logger } from "../utils/Logger";
+
+export class PasswordResetTokenRepository {
+    private tokens: Map<string, PasswordResetRecord> = new Map();
+
+    async save(record: PasswordResetRecord): Promise<PasswordResetRecord> {
+        Logger.info("Saving password reset token");
+        this.tokens.set(record.tokenHash, record);
+        return record;
+    }
+
+    /**
+     * Marks the token used and returns it, or returns undefined if it is
+     * unknown or already used. Lookup and marking happen in one step so two
+     * concurrent resets cannot both redeem the same token.
+     */
+    async consume(tokenHash: string, usedAt: Date): Promise<PasswordResetRecord | undefined> {
+        Logger.info("Consuming password reset token");
+        const record = this.tokens.get(tokenHash);
+        if (!record || record.usedAt) {
+            return undefined;
+        }
+        this.tokens.set(tokenHash, { ...record, usedAt });
+        return record;
+    }
+
+    async deleteByUser(userId: string): Promise<number> {
+        Logger.info(`Deleting password reset tokens for user: ${userId}`);
+        let deletedCount = 0;
+        for (const [hash, record] of this.tokens) {
+            if (record.userId === userId) {
+                this.tokens.delete(hash);
+                deletedCount++;
+            }
+        }
+        return deletedCount;
+    }
+}
@@ -0,0 +1,43 @@
+import { Project } from "../types/DTOs";
+import { Logger } from "../utils/Logger";
+import { InMemoryRepository } from "./InMemoryRepository";
+import { IProjectRepository } from "./IProjectRepository";
+
+export class ProjectRepository extends InMemoryRepository<Project> implements IProjectRepository {
+    async save(project: Project): Promise<Project> {
+        Logger.info("Saving project to database");
+        return this.insert(project);
+    }
+
+    async findById(id: string): Promise<Project | undefined> {
+        Logger.info("Finding project by id");
+        return this.records.find(p => p.id === id);
+    }
+
+    async findByUser(userId: string): Promise<Project[]> {
+        Logger.info(`Finding projects for user: ${userId}`);
+        return this.records.filter(p => p.ownerId === userId || p.memberIds.includes(userId));
+    }
+
+    async findByOwnerAndName(ownerId: string, name: string, excludeId?: string): Promise<Project | undefined> {
+        Logger.info("Finding project by owner and name");
+        const normalized = name.trim().toLowerCase();
+        return this.records.find(p =>
+            p.ownerId === ownerId && p.name.toLowerCase() === normalized && p.id !== excludeId
+        );
+    }
+
+    async findArchivedIds(): Promise<string[]> {
+        return this.records.filter(p => p.archived).map(p => p.id);
+    }
+
+    async update(id: string, updates: Partial<Project>): Promise<Project | undefined> {
+        Logger.info("Updating project in database");
+        return this.updateById(id, updates);
+    }
+
+    async delete(id: string): Promise<void> {
+        Logger.info("Deleting project from database");
+        await this.removeWhere(p => p.id === id);
+    }
+}
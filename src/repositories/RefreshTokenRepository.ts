@@ -0,0 +1,48 @@
+import { RefreshTokenRecord } from "../types/DTOs";
+import { Logger } from "../utils/Logger";
+
+export class RefreshTokenRepository {
+    private tokens: Map<string, RefreshTokenRecord> = new Map();
+
+    async save(record: RefreshTokenRecord): Promise<RefreshTokenRecord> {
+        Logger.info("Saving refresh token");
+        this.tokens.set(record.tokenHash, record);
+        return record;
+    }
+
+    async findByHash(tokenHash: string): Promise<RefreshTokenRecord | undefined> {
+        Logger.info("Finding refresh token by hash");
+        return this.tokens.get(tokenHash);
+    }
+
+    async markRotated(tokenHash: string, rotatedAt: Date): Promise<void> {
+        Logger.info("Marking refresh token as rotated");
+        const record = this.tokens.get(tokenHash);
+        if (record) {
+            this.tokens.set(tokenHash, { ...record, rotatedAt });
+        }
+    }
+
+    async deleteByFamily(familyId: string): Promise<number> {
+        Logger.info(`Deleting refresh tokens for family: ${familyId}`);
+        let deletedCount = 0;
+        for (const [hash, record] of this.tokens) {
+            if (record.familyId === familyId) {
+                this.tokens.delete(hash);
+                deletedCount++;
+            }
+        }
+        return deletedCount;
+    }
+
+    async findFamiliesByUser(userId: string): Promise<string[]> {
+        Logger.info(`Finding refresh token families for user: ${userId}`);
+        const families = new Set<string>();
+        for (const record of this.tokens.values()) {
+            if (record.userId === userId) {
+                families.add(record.familyId);
+            }
+        }
+        return [...families];
+    }
+}
@@ -1,39 +1,45 @@
-import { Task } from "../types/DTOs";
+import { PaginatedResult, Task, TaskQuery, TaskSortField, TaskStatus } from "../types/DTOs";
 import { Logger } from "../utils/Logger";
+import { InMemoryRepository } from "./InMemoryRepository";
+import { ITaskRepository } from "./ITaskRepository";
 
-export class TaskRepository {
-    private tasks: Task[] = [];
+const PRIORITY_RANK: Record<Task["priority"], number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
 
+export class TaskRepository extends InMemoryRepository<Task> implements ITaskRepository {
     async save(task: Task): Promise<Task> {
         Logger.info("Saving task to database");
-        this.tasks.push(task);
-        return task;
+        return this.insert(task);
     }
 
     async delete(id: string): Promise<void> {
         Logger.info("Deleting task from database");
-        this.tasks = this.tasks.filter(t => t.id !== id);
+        await this.removeWhere(t => t.id === id);
     }
 
     async findById(id: string): Promise<Task | undefined> {
         Logger.info("Finding task by id");
-        return this.tasks.find(t => t.id === id);
+        return this.records.find(t => t.id === id);
     }
 
     async update(id: string, updates: Partial<Task>): Promise<Task | undefined> {
         Logger.info("Updating task in database");
-        const index = this.tasks.findIndex(t => t.id === id);
-        if (index === -1) {
-            return undefined;
-        }
-        this.tasks[index] = { ...this.tasks[index], ...updates };
-        return this.tasks[index];
+        return this.updateById(id, updates);
     }
 
     async findByOwnerAndTitlePattern(ownerId: string, titlePattern: string, excludeId?: string): Promise<Task[]> {
         Logger.info("Finding tasks by owner and title pattern");
-        return this.tasks.filter(t =>
+        return this.records.filter(t =>
             t.ownerId === ownerId &&
+            !t.projectId &&
+            t.title.toLowerCase().includes(titlePattern.toLowerCase()) &&
+            (!excludeId || t.id !== excludeId)
+        );
+    }
+
+    async findByProjectAndTitlePattern(projectId: string, titlePattern: string, excludeId?: string): Promise<Task[]> {
+        Logger.info("Finding tasks by project and title pattern");
+        return this.records.filter(t =>
+            t.projectId === projectId &&
             t.title.toLowerCase().includes(titlePattern.toLowerCase()) &&
             (!excludeId || t.id !== excludeId)
         );
@@ -41,23 +47,146 @@ export class TaskRepository {
 
     async findByOwner(ownerId: string): Promise<Task[]> {
         Logger.info(`Finding all tasks for owner: ${ownerId}`);
-        return this.tasks.filter(t => t.ownerId === ownerId);
+        return this.records.filter(t => t.ownerId === ownerId);
+    }
+
+    async findByProject(projectId: string): Promise<Task[]> {
+        Logger.info(`Finding all tasks in project: ${projectId}`);
+        return this.records.filter(t => t.projectId === projectId);
+    }
+
+    async findByParent(parentId: string): Promise<Task[]> {
+        Logger.info(`Finding subtasks of task: ${parentId}`);
+        return this.records.filter(t => t.parentId === parentId);
+    }
+
+    async findOpenDueBefore(before: Date): Promise<Task[]> {
+        Logger.info(`Finding open tasks due before: ${before.toISOString()}`);
+        return this.records.filter(t =>
+            t.deadline !== undefined &&
+            new Date(t.deadline) <= before &&
+            t.status !== TaskStatus.DONE &&
+            t.status !== TaskStatus.CANCELLED
+        );
+    }
+
+    async queryByOwner(
+        ownerId: string,
+        query: TaskQuery,
+        hiddenProjectIds: string[] = []
+    ): Promise<PaginatedResult<Task>> {
+        Logger.info(`Querying tasks for owner: ${ownerId}`);
+        return this.query(t => t.ownerId === ownerId, query, hiddenProjectIds);
+    }
+
+    async queryByAssignee(
+        assigneeId: string,
+        query: TaskQuery,
+        hiddenProjectIds: string[] = []
+    ): Promise<PaginatedResult<Task>> {
+        Logger.info(`Querying tasks assigned to: ${assigneeId}`);
+        return this.query(t => t.assigneeId === assigneeId, query, hiddenProjectIds);
+    }
+
+    private query(inScope: (task: Task) => boolean, query: TaskQuery, hiddenProjectIds: string[]): PaginatedResult<Task> {
+        const search = query.search?.toLowerCase();
+        const hidden = hiddenProjectIds.filter(id => id !== query.projectId);
+
+        const matching = this.records.filter(t =>
+            inScope(t) &&
+            (!query.projectId || t.projectId === query.projectId) &&
+            (!t.projectId || !hidden.includes(t.projectId)) &&
+            (!query.status || t.status === query.status) &&
+            (!query.priority || t.priority === query.priority) &&
+            (!query.deadlineFrom || (t.deadline !== undefined && t.deadline >= query.deadlineFrom)) &&
+            (!query.deadlineTo || (t.deadline !== undefined && t.deadline <= query.deadlineTo)) &&
+            (!search ||
+                t.title.toLowerCase().includes(search) ||
+                (t.description?.toLowerCase().includes(search) ?? false))
+        );
+
+        if (query.sortBy) {
+            const sortBy = query.sortBy;
+            const direction = query.sortOrder === "desc" ? -1 : 1;
+            matching.sort((a, b) => {
+                // Tasks without a deadline always go last
+                if (sortBy === "deadline" && (!a.deadline || !b.deadline)) {
+                    return (a.deadline ? 0 : 1) - (b.deadline ? 0 : 1);
+                }
+                return direction * (this.sortValue(a, sortBy) - this.sortValue(b, sortBy));
+            });
+        }
+
+        return {
+            items: matching.slice(query.offset, query.offset + query.limit),
+            total: matching.length,
+            limit: query.limit,
+            offset: query.offset
+        };
+    }
+
+    private sortValue(task: Task, field: TaskSortField): number {
+        switch (field) {
+            case "priority":
+                return PRIORITY_RANK[task.priority];
+            case "deadline":
+                return task.deadline ? new Date(task.deadline).getTime() : 0;
+            case "createdAt":
+                return new Date(task.createdAt).getTime();
+        }
     }
 
     async deleteByOwner(ownerId: string): Promise<number> {
         Logger.info(`Deleting all tasks for owner: ${ownerId}`);
-        const beforeCount = this.tasks.length;
-        this.tasks = this.tasks.filter(t => t.ownerId !== ownerId);
-        const deletedCount = beforeCount - this.tasks.length;
+        const deletedCount = (await this.removeWhere(t => t.ownerId === ownerId)).length;
         Logger.info(`Deleted ${deletedCount} tasks for owner: ${ownerId}`);
         return deletedCount;
     }
 
+    async moveProjectTasks(fromProjectId: string, toProjectId?: string): Promise<Task[]> {
+        Logger.info(`Moving tasks of project ${fromProjectId} to ${toProjectId ?? "no project"}`);
+        return this.updateWhere(t => t.projectId === fromProjectId ? { ...t, projectId: toProjectId } : undefined);
+    }
+
+    async deleteByProject(projectId: string): Promise<Task[]> {
+        Logger.info(`Deleting all tasks in project: ${projectId}`);
+        return this.removeWhere(t => t.projectId === projectId);
+    }
+
+    async removeCollaborator(userId: string): Promise<Task[]> {
+        Logger.info(`Removing collaborator from all tasks: ${userId}`);
+        return this.updateWhere(t => {
+            const shared = (t.collaborators ?? []).some(c => c.userId === userId);
+            if (!shared && t.assigneeId !== userId) {
+                return undefined;
+            }
+            return {
+                ...t,
+                collaborators: (t.collaborators ?? []).filter(c => c.userId !== userId),
+                assigneeId: t.assigneeId === userId ? undefined : t.assigneeId
+            };
+        });
+    }
+
+    async unlinkDeleted(ids: string[]): Promise<Task[]> {
+        Logger.info(`Unlinking tasks from deleted tasks: ${ids.join(", ")}`);
+        return this.updateWhere(t => {
+            const orphaned = t.parentId !== undefined && ids.includes(t.parentId);
+            const blockedBy = t.blockedBy ?? [];
+            if (!orphaned && !blockedBy.some(id => ids.includes(id))) {
+                return undefined;
+            }
+            return {
+                ...t,
+                parentId: orphaned ? undefined : t.parentId,
+                blockedBy: blockedBy.filter(id => !ids.includes(id))
+            };
+        });
+    }
+
     async deleteMultiple(ids: string[]): Promise<number> {
         Logger.info(`Deleting multiple tasks: ${ids.join(", ")}`);
-        const beforeCount = this.tasks.length;
-        this.tasks = this.tasks.filter(t => !ids.includes(t.id));
-        const deletedCount = beforeCount - this.tasks.length;
+        const deletedCount = (await this.removeWhere(t => ids.includes(t.id))).length;
         Logger.info(`Deleted ${deletedCount} tasks`);
         return deletedCount;
     }
@@ -1,22 +1,67 @@
-import { User } from "../types/DTOs";
+import { PaginatedResult, User, UserQuery } from "../types/DTOs";
+import { ConflictError } from "../errors/BaseError";
+import { EmailAddress } from "../utils/EmailAddress";
 import { Logger } from "../utils/Logger";
+import { InMemoryRepository } from "./InMemoryRepository";
+import { IUserRepository } from "./IUserRepository";
 
-export class UserRepository {
-    private users: User[] = [];
+export class UserRepository extends InMemoryRepository<User> implements IUserRepository {
+    /**
+     * Emails are unique across accounts. The check and the write happen in the
+     * same tick, so concurrent registrations cannot both pass it.
+     */
+    private assertEmailAvailable(email: string, exceptId?: string): void {
+        const normalized = EmailAddress.normalize(email);
+        if (this.records.some(u => u.id !== exceptId && EmailAddress.normalize(u.email) === normalized)) {
+            throw new ConflictError("Email is already registered");
+        }
+    }
 
     async save(user: User): Promise<User> {
         Logger.info("Saving user to database");
-        this.users.push(user);
-        return user;
+        this.assertEmailAvailable(user.email);
+        return this.insert(user);
     }
 
     async findByEmail(email: string): Promise<User | undefined> {
         Logger.info("Finding user by email");
-        return this.users.find(u => u.email === email);
+        const normalized = EmailAddress.normalize(email);
+        return this.records.find(u => EmailAddress.normalize(u.email) === normalized);
     }
 
     async findById(id: string): Promise<User | undefined> {
         Logger.info("Finding user by id");
-        return this.users.find(u => u.id === id);
+        return this.records.find(u => u.id === id);
+    }
+
+    async update(id: string, updates: Partial<User>): Promise<User | undefined> {
+        Logger.info("Updating user in database");
+        if (updates.email !== undefined && this.records.some(u => u.id === id)) {
+            this.assertEmailAvailable(updates.email, id);
+        }
+        return this.updateById(id, updates);
+    }
+
+    async delete(id: string): Promise<void> {
+        Logger.info("Deleting user from database");
+        await this.removeWhere(u => u.id === id);
+    }
+
+    async query(query: UserQuery): Promise<PaginatedResult<User>> {
+        Logger.info("Querying users");
+        const search = query.search?.toLowerCase();
+
+        const matching = this.records
+            .filter(u => !query.role || u.role === query.role)
+            .filter(u => query.disabled === undefined || Boolean(u.disabled) === query.disabled)
+            .filter(u => !search || u.email.toLowerCase().includes(search))
+            .sort((a, b) => a.email.localeCompare(b.email));
+
+        return {
+            items: matching.slice(query.offset, query.offset + query.limit),
+            total: matching.length,
+            limit: query.limit,
+            offset: query.offset
+        };
     }
 }
@@ -0,0 +1,32 @@
+import { Logger } from "../utils/Logger";
+import { JsonLinesFile } from "../utils/JsonLinesFile";
+
+export interface AuditEvent {
+    action: string;
+    // "system" for changes made at startup rather than by a user
+    actorId: string;
+    targetId: string;
+    details: Record<string, unknown>;
+}
+
+/**
+ * Append-only record of security-relevant changes, one JSON line per event.
+ * Kept apart from the application log so it is not rotated or filtered by
+ * log level.
+ */
+export class AuditLog {
+    private file: JsonLinesFile;
+
+    constructor(filePath: string) {
+        this.file = new JsonLinesFile(filePath);
+    }
+
+    record(event: AuditEvent): Promise<void> {
+        Logger.info(`Audit: ${event.action} on ${event.targetId} by ${event.actorId}`, event.details);
+
+        return this.file.append({ ...event, at: new Date().toISOString() }).catch(error => {
+            Logger.error(`Failed to write audit log ${this.file.filePath}`, error);
+            throw error;
+        });
+    }
+}
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import "../testing/fixtures";
+import { AuthService } from "./AuthService";
+import { TokenRevocationList } from "./TokenRevocationList";
+import { RefreshTokenRepository } from "../repositories/RefreshTokenRepository";
+import { PasswordResetTokenRepository } from "../repositories/PasswordResetTokenRepository";
+import { Role } from "../types/DTOs";
+
+const createAuthService = () => new AuthService(
+    { secret: "test-secret", expiresIn: "15m", refreshTokenTtlSeconds: 3600, emailVerificationExpiresIn: "1d", passwordResetTtlSeconds: 3600 },
+    new RefreshTokenRepository(),
+    new TokenRevocationList(),
+    new PasswordResetTokenRepository()
+);
+
+describe("AuthService refresh tokens", () => {
+    it("rotates a refresh token within its session", async () => {
+        const authService = createAuthService();
+        const userId = crypto.randomUUID();
+        const { refreshToken } = await authService.issueTokens(userId, Role.USER);
+
+        const owner = await authService.rotateRefreshToken(refreshToken);
+        const next = await authService.issueTokens(owner.userId, Role.USER, owner.sessionId);
+
+        assert.equal(owner.userId, userId);
+        assert.deepEqual(await authService.rotateRefreshToken(next.refreshToken), owner);
+    });
+
+    it("revokes the whole session when a rotated token is replayed", async () => {
+        const authService = createAuthService();
+        const userId = crypto.randomUUID();
+        const first = await authService.issueTokens(userId, Role.USER);
+        const { sessionId } = await authService.rotateRefreshToken(first.refreshToken);
+        const second = await authService.issueTokens(userId, Role.USER, sessionId);
+
+        await assert.rejects(authService.rotateRefreshToken(first.refreshToken), /reuse detected/);
+
+        await assert.rejects(authService.rotateRefreshToken(second.refreshToken), /Invalid refresh token/);
+        assert.throws(() => authService.verifyToken(second.accessToken), /revoked/);
+    });
+
+    it("leaves the user's other sessions alone when one is revoked", async () => {
+        const authService = createAuthService();
+        const userId = crypto.randomUUID();
+        const leaked = await authService.issueTokens(userId, Role.USER);
+        const other = await authService.issueTokens(userId, Role.USER);
+        await authService.rotateRefreshToken(leaked.refreshToken);
+
+        await assert.rejects(authService.rotateRefreshToken(leaked.refreshToken), /reuse detected/);
+
+        assert.equal(authService.verifyToken(other.accessToken).id, userId);
+        assert.equal((await authService.rotateRefreshToken(other.refreshToken)).userId, userId);
+    });
+
+    it("rejects a refresh token it never issued", async () => {
+        const authService = createAuthService();
+
+        await assert.rejects(authService.rotateRefreshToken("not-a-token"), /Invalid refresh token/);
+    });
+});
@@ -1,24 +1,206 @@
+import crypto from "crypto";
 import jwt from "jsonwebtoken";
 import { Logger } from "../utils/Logger";
-import { Role } from "../types/DTOs";
+import { AccessPolicy } from "../utils/AccessPolicy";
+import { AuthTokens, Role } from "../types/DTOs";
 import { UnauthorizedError } from "../errors/BaseError";
+import { JwtConfig } from "../config";
+import { RefreshTokenRepository } from "../repositories/RefreshTokenRepository";
+import { PasswordResetTokenRepository } from "../repositories/PasswordResetTokenRepository";
+import { TokenRevocationList } from "./TokenRevocationList";
 
+export interface TokenClaims {
+    id: string;
+    role: Role;
+    sessionId: string;
+}
+
+export interface EmailVerificationClaims {
+    userId: string;
+    email: string;
+}
+
+// Keeps verification tokens from being accepted as access tokens and vice versa
+const EMAIL_VERIFICATION_AUDIENCE = "email-verification";
+
+export interface RefreshTokenOwner {
+    userId: string;
+    sessionId: string;
+}
+
+/**
+ * Issues short-lived access tokens together with opaque, rotating refresh
+ * tokens. All tokens issued from one login share a session id (the token
+ * family): logging out or replaying an already rotated refresh token revokes
+ * the whole family.
+ */
 export class AuthService {
-    private static SECRET_KEY = "secret";
+    constructor(
+        private jwtConfig: JwtConfig,
+        private refreshTokenRepository: RefreshTokenRepository,
+        private revocationList: TokenRevocationList,
+        private passwordResetTokenRepository: PasswordResetTokenRepository
+    ) { }
 
-    generateToken(userId: string, role: Role): string {
+    generateToken(userId: string, role: Role, sessionId: string): string {
         Logger.info("Generating JWT token");
-        return jwt.sign({ id: userId, role }, AuthService.SECRET_KEY, { expiresIn: "24h" });
+        return jwt.sign({ id: userId, role, sid: sessionId }, this.jwtConfig.secret, {
+            expiresIn: this.jwtConfig.expiresIn,
+            jwtid: crypto.randomUUID()
+        });
     }
 
-    verifyToken(token: string): { id: string; role: Role } {
+    verifyToken(token: string): TokenClaims {
+        Logger.info("Verifying JWT token");
+
+        let decoded: string | jwt.JwtPayload;
         try {
-            Logger.info("Verifying JWT token");
-            const decoded = jwt.verify(token, AuthService.SECRET_KEY) as { id: string; role: Role };
-            return decoded;
+            decoded = jwt.verify(token, this.jwtConfig.secret, { algorithms: ["HS256"] });
         } catch (error) {
             Logger.error("Token verification failed", error);
+            if (error instanceof jwt.TokenExpiredError) {
+                throw new UnauthorizedError("Token expired");
+            }
+            throw new UnauthorizedError("Invalid or expired token");
+        }
+
+        if (typeof decoded !== "object" || typeof decoded.id !== "string" ||
+            typeof decoded.sid !== "string" || !AccessPolicy.isRole(decoded.role)) {
+            Logger.error("Token payload is missing required claims");
             throw new UnauthorizedError("Invalid or expired token");
         }
+
+        if (this.revocationList.isRevoked(decoded.sid)) {
+            Logger.error(`Rejected token from revoked session: ${decoded.sid}`);
+            throw new UnauthorizedError("Token has been revoked");
+        }
+
+        return { id: decoded.id, role: decoded.role, sessionId: decoded.sid };
+    }
+
+    /**
+     * Signs a token proving control of `email`. It names the address, so it
+     * stops working once the user changes their email again.
+     */
+    generateEmailVerificationToken(userId: string, email: string): string {
+        return jwt.sign({ email }, this.jwtConfig.secret, {
+            subject: userId,
+            audience: EMAIL_VERIFICATION_AUDIENCE,
+            expiresIn: this.jwtConfig.emailVerificationExpiresIn
+        });
+    }
+
+    verifyEmailVerificationToken(token: string): EmailVerificationClaims {
+        let decoded: string | jwt.JwtPayload;
+        try {
+            decoded = jwt.verify(token, this.jwtConfig.secret, {
+                algorithms: ["HS256"],
+                audience: EMAIL_VERIFICATION_AUDIENCE
+            });
+        } catch (error) {
+            Logger.error("Email verification token rejected", error);
+            throw new UnauthorizedError("Invalid or expired verification token");
+        }
+
+        if (typeof decoded !== "object" || typeof decoded.sub !== "string" || typeof decoded.email !== "string") {
+            throw new UnauthorizedError("Invalid or expired verification token");
+        }
+
+        return { userId: decoded.sub, email: decoded.email };
+    }
+
+    async issueTokens(userId: string, role: Role, sessionId: string = crypto.randomUUID()): Promise<AuthTokens> {
+        const refreshToken = crypto.randomBytes(48).toString("base64url");
+
+        await this.refreshTokenRepository.save({
+            tokenHash: this.hashToken(refreshToken),
+            userId,
+            familyId: sessionId,
+            expiresAt: new Date(Date.now() + this.jwtConfig.refreshTokenTtlSeconds * 1000)
+        });
+
+        return {
+            accessToken: this.generateToken(userId, role, sessionId),
+            refreshToken,
+            tokenType: "Bearer"
+        };
+    }
+
+    /**
+     * Consumes a refresh token so it can be exchanged for a new pair in the
+     * same session. A token that was already rotated means it leaked: the
+     * whole session is revoked.
+     */
+    async rotateRefreshToken(refreshToken: string): Promise<RefreshTokenOwner> {
+        const tokenHash = this.hashToken(refreshToken);
+        const record = await this.refreshTokenRepository.findByHash(tokenHash);
+
+        if (!record || this.revocationList.isRevoked(record.familyId)) {
+            throw new UnauthorizedError("Invalid refresh token");
+        }
+
+        if (record.rotatedAt) {
+            Logger.error(`Refresh token reuse detected, revoking session: ${record.familyId}`);
+            await this.revokeSession(record.familyId);
+            throw new UnauthorizedError("Refresh token reuse detected");
+        }
+
+        if (record.expiresAt.getTime() < Date.now()) {
+            throw new UnauthorizedError("Refresh token expired");
+        }
+
+        await this.refreshTokenRepository.markRotated(tokenHash, new Date());
+
+        return { userId: record.userId, sessionId: record.familyId };
+    }
+
+    /**
+     * Issues an opaque, single-use reset token; only its hash is stored.
+     * Requesting a new one invalidates any the user still had.
+     */
+    async issuePasswordResetToken(userId: string): Promise<string> {
+        const token = crypto.randomBytes(32).toString("base64url");
+
+        await this.passwordResetTokenRepository.deleteByUser(userId);
+        await this.passwordResetTokenRepository.save({
+            tokenHash: this.hashToken(token),
+            userId,
+            expiresAt: new Date(Date.now() + this.jwtConfig.passwordResetTtlSeconds * 1000)
+        });
+
+        return token;
+    }
+
+    /** Redeems a reset token and returns the id of the user it was issued to. */
+    async consumePasswordResetToken(token: string): Promise<string> {
+        const record = await this.passwordResetTokenRepository.consume(this.hashToken(token), new Date());
+        if (!record || record.expiresAt.getTime() < Date.now()) {
+            throw new UnauthorizedError("Invalid or expired reset token");
+        }
+        return record.userId;
+    }
+
+    async revokeSession(sessionId: string): Promise<void> {
+        // Access tokens from this session stay valid until they expire, which is
+        // always sooner than the refresh token TTL.
+        this.revocationList.revoke(sessionId, new Date(Date.now() + this.jwtConfig.refreshTokenTtlSeconds * 1000));
+        await this.refreshTokenRepository.deleteByFamily(sessionId);
+    }
+
+    /**
+     * Revokes every session of a user, e.g. after their password changed or
+     * their account was disabled. `keepSessionId` spares the caller's own.
+     */
+    async revokeUserSessions(userId: string, keepSessionId?: string): Promise<void> {
+        const sessionIds = await this.refreshTokenRepository.findFamiliesByUser(userId);
+        for (const sessionId of sessionIds) {
+            if (sessionId !== keepSessionId) {
+                await this.revokeSession(sessionId);
+            }
+        }
+    }
+
+    private hashToken(token: string): string {
+        return crypto.createHash("sha256").update(token).digest("hex");
     }
 }
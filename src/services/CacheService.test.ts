@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import "../testing/fixtures";
+import { CacheService } from "./CacheService";
+import { MemoryCacheStore } from "./cache/MemoryCacheStore";
+
+const createCache = () => new CacheService(new MemoryCacheStore({ maxEntries: 100, defaultTtlMs: 60000, sweepIntervalMs: 0 }));
+
+// A loader that resolves only when the test says so
+function pendingLoader<T>(value: T) {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => release = resolve);
+    let calls = 0;
+    const loader = async () => {
+        calls++;
+        await released;
+        return value;
+    };
+    return { loader, release, calls: () => calls };
+}
+
+describe("CacheService.getOrLoad", () => {
+    it("shares one load between concurrent misses", async () => {
+        const cache = createCache();
+        const { loader, release, calls } = pendingLoader("value");
+
+        const first = cache.getOrLoad("key", loader);
+        const second = cache.getOrLoad("key", loader);
+        release();
+
+        assert.deepEqual(await Promise.all([first, second]), ["value", "value"]);
+        assert.equal(calls(), 1);
+        assert.equal(await cache.get("key"), "value");
+    });
+
+    it("does not cache a load overtaken by an invalidation of its key", async () => {
+        const cache = createCache();
+        const stale = pendingLoader("stale");
+
+        const load = cache.getOrLoad("key", stale.loader);
+        await cache.invalidate("key");
+        stale.release();
+
+        assert.equal(await load, "stale");
+        assert.equal(await cache.get("key"), null);
+    });
+
+    it("does not cache a load overtaken by an invalidation of its tags", async () => {
+        const cache = createCache();
+        const stale = pendingLoader("stale");
+
+        const load = cache.getOrLoad("key", stale.loader, { tags: ["owner:1"] });
+        await cache.invalidateTags(["owner:1"]);
+        stale.release();
+
+        assert.equal(await load, "stale");
+        assert.equal(await cache.get("key"), null);
+    });
+
+    it("caches a load whose tags were not invalidated", async () => {
+        const cache = createCache();
+        const { loader, release } = pendingLoader("value");
+
+        const load = cache.getOrLoad("key", loader, () => ({ tags: ["owner:1"] }));
+        await cache.invalidateTags(["owner:2"]);
+        release();
+
+        assert.equal(await load, "value");
+        assert.equal(await cache.get("key"), "value");
+    });
+
+    it("starts a fresh load for callers that arrive after an invalidation", async () => {
+        const cache = createCache();
+        const stale = pendingLoader("stale");
+        const fresh = pendingLoader("fresh");
+
+        const staleLoad = cache.getOrLoad("key", stale.loader);
+        await cache.invalidate("key");
+        const freshLoad = cache.getOrLoad("key", fresh.loader);
+        fresh.release();
+        assert.equal(await freshLoad, "fresh");
+        stale.release();
+        assert.equal(await staleLoad, "stale");
+
+        assert.equal(fresh.calls(), 1);
+        assert.equal(await cache.get("key"), "fresh");
+    });
+});
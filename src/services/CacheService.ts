@@ -1,41 +1,214 @@
+import { randomUUID } from "crypto";
 import { Logger } from "../utils/Logger";
+import { Metrics } from "../utils/Metrics";
+import { CacheEntryOptions, CacheStore } from "./cache/CacheStore";
+import { CacheInvalidationBus, InvalidationMessage } from "./cache/CacheInvalidationBus";
 
+export type { CacheEntryOptions } from "./cache/CacheStore";
+
+const cacheHits = Metrics.counter("cache_hits_total", "Cache lookups that found a live entry");
+const cacheMisses = Metrics.counter("cache_misses_total", "Cache lookups that found no live entry");
+const cacheErrors = Metrics.counter("cache_errors_total", "Cache store operations that failed", ["operation"]);
+
+export interface CacheOptions {
+    driver: "memory" | "redis";
+    maxEntries: number;
+    defaultTtlMs: number;
+    sweepIntervalMs: number;
+    redisUrl?: string;
+    keyPrefix: string;
+    invalidationChannel: string;
+}
+
+/**
+ * Front for whichever `CacheStore` is configured. Concurrent misses share a
+ * single load, and a failing store degrades to a miss rather than failing
+ * the request. With an invalidation bus, invalidations are also broadcast so
+ * other instances drop their local copies.
+ */
 export class CacheService {
-    private cache: Map<string, { data: any; expiry: number }> = new Map();
-    private defaultTTL = 60000; // 60 seconds
+    private inFlight: Map<string, Promise<any>> = new Map();
+    private instanceId = randomUUID();
+    // Every invalidation takes the next generation and records it against the
+    // keys and tags it covers, so a load can tell whether it went stale
+    private generation = 0;
+    private keyGenerations: Map<string, number> = new Map();
+    private tagGenerations: Map<string, number> = new Map();
+    private clearGeneration = 0;
+    private runningLoads = 0;
+
+    constructor(private store: CacheStore, private bus?: CacheInvalidationBus) {
+        bus?.subscribe(message => this.onRemoteInvalidation(message))
+            .catch(error => Logger.error("Could not subscribe to cache invalidations", error));
+    }
 
-    set(key: string, value: any, ttl: number = this.defaultTTL): void {
+    async set(key: string, value: any, options: CacheEntryOptions = {}): Promise<void> {
         Logger.debug(`Caching data with key: ${key}`);
-        const expiry = Date.now() + ttl;
-        this.cache.set(key, { data: value, expiry });
+        await this.guard("set", () => this.store.set(key, value, options));
     }
 
-    get(key: string): any | null {
+    async get(key: string): Promise<any | null> {
         Logger.debug(`Checking cache for key: ${key}`);
-        const cached = this.cache.get(key);
+        const cached = await this.guard("get", () => this.store.get(key));
 
-        if (!cached) {
+        if (cached === null || cached === undefined) {
             Logger.debug(`Cache miss for key: ${key}`);
+            cacheMisses.inc();
             return null;
         }
 
-        if (Date.now() > cached.expiry) {
-            Logger.debug(`Cache expired for key: ${key}`);
-            this.cache.delete(key);
-            return null;
+        Logger.debug(`Cache hit for key: ${key}`);
+        cacheHits.inc();
+        return cached;
+    }
+
+    /**
+     * Returns the cached value or loads it. Concurrent misses for the same key
+     * share a single load instead of each hitting the backing store.
+     * `options` may depend on the loaded value, e.g. to tag it by owner.
+     * A load overtaken by an invalidation of its key or tags is returned to
+     * its callers but not cached.
+     */
+    async getOrLoad<T>(
+        key: string,
+        loader: () => Promise<T>,
+        options: CacheEntryOptions | ((value: T) => CacheEntryOptions) = {}
+    ): Promise<T> {
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            Logger.debug(`Joining in-flight load for key: ${key}`);
+            return pending;
         }
 
-        Logger.debug(`Cache hit for key: ${key}`);
-        return cached.data;
+        const startedAt = this.generation;
+        this.runningLoads++;
+        const load = (async () => {
+            const cached = await this.get(key);
+            if (cached !== null) {
+                return cached;
+            }
+            const value = await loader();
+            const entryOptions = typeof options === "function" ? options(value) : options;
+            if (this.invalidatedSince(startedAt, key, entryOptions.tags ?? [])) {
+                Logger.debug(`Not caching key ${key}, it was invalidated while loading`);
+                return value;
+            }
+            await this.set(key, value, entryOptions);
+            return value;
+        })();
+        this.inFlight.set(key, load);
+
+        try {
+            return await load;
+        } finally {
+            // An invalidation may already have replaced this load with a newer one
+            if (this.inFlight.get(key) === load) {
+                this.inFlight.delete(key);
+            }
+            // Recorded generations only matter to running loads, so they can
+            // go once none are left
+            if (--this.runningLoads === 0) {
+                this.keyGenerations.clear();
+                this.tagGenerations.clear();
+            }
+        }
     }
 
-    invalidate(key: string): void {
+    async invalidate(key: string): Promise<void> {
         Logger.debug(`Invalidating cache for key: ${key}`);
-        this.cache.delete(key);
+        this.bumpGeneration({ keys: [key] });
+        await this.guard("invalidate", () => this.store.delete(key));
+        await this.broadcast({ keys: [key] });
+    }
+
+    async invalidateTags(tags: string[]): Promise<void> {
+        if (tags.length === 0) {
+            return;
+        }
+        Logger.debug(`Invalidating cache tags: ${tags.join(", ")}`);
+        this.bumpGeneration({ tags });
+        await this.guard("invalidate", () => this.store.invalidateTags(tags));
+        await this.broadcast({ tags });
     }
 
-    clear(): void {
+    async clear(): Promise<void> {
         Logger.info("Clearing all cache");
-        this.cache.clear();
+        this.bumpGeneration({ clear: true });
+        await this.guard("clear", () => this.store.clear());
+        await this.broadcast({ clear: true });
+    }
+
+    async dispose(): Promise<void> {
+        await this.bus?.dispose();
+        await this.store.dispose();
+    }
+
+    private async onRemoteInvalidation(message: InvalidationMessage): Promise<void> {
+        if (message.origin === this.instanceId) {
+            return;
+        }
+
+        Logger.debug(`Applying cache invalidation from instance ${message.origin}`);
+        this.bumpGeneration(message);
+        if (message.clear) {
+            await this.guard("clear", () => this.store.clear());
+            return;
+        }
+        for (const key of message.keys ?? []) {
+            await this.guard("invalidate", () => this.store.delete(key));
+        }
+        if (message.tags?.length) {
+            await this.guard("invalidate", () => this.store.invalidateTags(message.tags!));
+        }
+    }
+
+    /**
+     * Records an invalidation against the generations and drops the in-flight
+     * loads it may cover, so later callers start a fresh load instead of
+     * joining a stale one. A load's tags are only known once it finishes, so
+     * a tag invalidation drops every in-flight load.
+     */
+    private bumpGeneration(message: Omit<InvalidationMessage, "origin">): void {
+        const generation = ++this.generation;
+        if (message.clear) {
+            this.clearGeneration = generation;
+            this.inFlight.clear();
+            return;
+        }
+        for (const key of message.keys ?? []) {
+            this.keyGenerations.set(key, generation);
+            this.inFlight.delete(key);
+        }
+        for (const tag of message.tags ?? []) {
+            this.tagGenerations.set(tag, generation);
+        }
+        if (message.tags?.length) {
+            this.inFlight.clear();
+        }
+    }
+
+    private invalidatedSince(generation: number, key: string, tags: string[]): boolean {
+        return this.clearGeneration > generation
+            || (this.keyGenerations.get(key) ?? 0) > generation
+            || tags.some(tag => (this.tagGenerations.get(tag) ?? 0) > generation);
+    }
+
+    private async broadcast(message: Omit<InvalidationMessage, "origin">): Promise<void> {
+        if (!this.bus) {
+            return;
+        }
+        await this.guard("publish", () => this.bus!.publish({ origin: this.instanceId, ...message }));
+    }
+
+    private async guard<T>(operation: string, action: () => Promise<T>): Promise<T | null> {
+        try {
+            return await action();
+        } catch (error) {
+            Logger.warn(`Cache ${operation} failed, continuing without cache`, {
+                error: error instanceof Error ? error.message : String(error)
+            });
+            cacheErrors.inc({ operation });
+            return null;
+        }
     }
 }
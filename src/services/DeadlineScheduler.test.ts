@@ -0,0 +1,125 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FixedClock, RecordingNotifier, buildTask, buildUser, createTaskFixture } from "../testing/fixtures";
+import { DeadlineScheduler } from "./DeadlineScheduler";
+import { RecurrenceFrequency, Role, TaskStatus } from "../types/DTOs";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date("2030-01-10T12:00:00Z");
+const hoursFromNow = (hours: number) => new Date(NOW.getTime() + hours * HOUR_MS);
+
+describe("TaskService deadlines", () => {
+    it("claims each lead time once, sending only the shortest one reached", async () => {
+        const clock = new FixedClock(NOW);
+        const { taskService, taskRepository, userRepository } = createTaskFixture({ clock });
+        const owner = await userRepository.save(buildUser());
+        const soon = await taskRepository.save(buildTask(owner.id, { deadline: hoursFromNow(0.5) }));
+        const tomorrow = await taskRepository.save(buildTask(owner.id, { deadline: hoursFromNow(20) }));
+        await taskRepository.save(buildTask(owner.id, { deadline: hoursFromNow(48) }));
+        await taskRepository.save(buildTask(owner.id, { deadline: hoursFromNow(0.5), status: TaskStatus.DONE }));
+
+        const first = await taskService.claimReminders([1440, 60]);
+        assert.deepEqual(
+            first.map(r => [r.task.id, r.leadTimeMinutes]).sort(),
+            [[soon.id, 60], [tomorrow.id, 1440]].sort()
+        );
+        assert.deepEqual(await taskService.claimReminders([1440, 60]), []);
+
+        clock.advance(19.5 * HOUR_MS);
+        const second = await taskService.claimReminders([1440, 60]);
+        assert.deepEqual(second.map(r => [r.task.id, r.leadTimeMinutes]), [[tomorrow.id, 60]]);
+    });
+
+    it("marks open tasks overdue once their deadline has passed", async () => {
+        const clock = new FixedClock(NOW);
+        const { taskService, taskRepository, userRepository } = createTaskFixture({ clock });
+        const owner = await userRepository.save(buildUser());
+        const late = await taskRepository.save(buildTask(owner.id, { deadline: hoursFromNow(-1) }));
+        const later = await taskRepository.save(buildTask(owner.id, { deadline: hoursFromNow(1) }));
+        await taskRepository.save(buildTask(owner.id, { deadline: hoursFromNow(-1), status: TaskStatus.CANCELLED }));
+
+        const marked = await taskService.markOverdue();
+        assert.deepEqual(marked.map(t => t.id), [late.id]);
+        assert.deepEqual(marked[0].overdueAt, NOW);
+        assert.deepEqual(await taskService.markOverdue(), []);
+
+        clock.advance(2 * HOUR_MS);
+        assert.deepEqual((await taskService.markOverdue()).map(t => t.id), [later.id]);
+    });
+
+    it("schedules the next occurrence of a recurring task from the clock", async () => {
+        const clock = new FixedClock(NOW);
+        const { taskService, userRepository } = createTaskFixture({ clock });
+        const owner = await userRepository.save(buildUser());
+        const task = await taskService.create({
+            title: "Water the plants",
+            ownerId: owner.id,
+            deadline: hoursFromNow(1),
+            recurrence: { frequency: RecurrenceFrequency.DAILY }
+        });
+
+        // Completed four days late: occurrences already in the past are skipped
+        clock.advance(4 * 24 * HOUR_MS);
+        const done = await taskService.update(task.id, { status: TaskStatus.DONE }, { userId: owner.id, role: Role.USER });
+        const next = await taskService.getById(done.recurrence!.nextTaskId!, { userId: owner.id, role: Role.USER });
+
+        assert.deepEqual(next.deadline, new Date(hoursFromNow(1).getTime() + 4 * 24 * HOUR_MS));
+        assert.equal(next.recurrence?.occurrence, 5);
+        assert.deepEqual(next.createdAt, clock.now());
+    });
+
+    it("validates and stamps tasks with the clock, not the wall clock", async () => {
+        const past = new Date("2020-03-01T08:00:00Z");
+        const clock = new FixedClock(past);
+        const { taskService, userRepository } = createTaskFixture({ clock });
+        const owner = await userRepository.save(buildUser());
+        const actor = { userId: owner.id, role: Role.USER };
+
+        // Both deadlines are long gone by the real date, but not by the clock
+        const task = await taskService.create({
+            title: "Renew the lease",
+            ownerId: owner.id,
+            deadline: new Date("2020-03-02T08:00:00Z"),
+            recurrence: { frequency: RecurrenceFrequency.DAILY, count: 3 }
+        });
+        assert.deepEqual(task.createdAt, past);
+        assert.deepEqual(task.statusHistory[0].changedAt, past);
+
+        clock.advance(HOUR_MS);
+        const done = await taskService.update(task.id, { status: TaskStatus.DONE }, actor);
+        assert.deepEqual(done.statusHistory[done.statusHistory.length - 1].changedAt, clock.now());
+
+        const next = await taskService.getById(done.recurrence!.nextTaskId!, actor);
+        assert.deepEqual(next.deadline, new Date("2020-03-03T08:00:00Z"));
+        assert.deepEqual(next.createdAt, clock.now());
+    });
+});
+
+describe("DeadlineScheduler", () => {
+    it("notifies the owner and assignee of reminders and overdue tasks", async () => {
+        const clock = new FixedClock(NOW);
+        const { taskService, taskRepository, userRepository } = createTaskFixture({ clock });
+        const owner = await userRepository.save(buildUser({ email: "owner@example.com" }));
+        const assignee = await userRepository.save(buildUser({ email: "assignee@example.com" }));
+        const disabled = await userRepository.save(buildUser({ email: "disabled@example.com", disabled: true }));
+        await taskRepository.save(buildTask(owner.id, { title: "Send invoices", deadline: hoursFromNow(0.5), assigneeId: assignee.id }));
+        await taskRepository.save(buildTask(owner.id, { title: "File taxes", deadline: hoursFromNow(-2), assigneeId: disabled.id }));
+
+        const notifier = new RecordingNotifier();
+        const scheduler = new DeadlineScheduler(taskService, userRepository, notifier, {
+            intervalSeconds: 60,
+            leadTimesMinutes: [1440, 60]
+        });
+
+        assert.deepEqual(await scheduler.runOnce(), { reminded: 1, overdue: 1 });
+        assert.deepEqual(notifier.sent.map(n => [n.to, n.subject]), [
+            ["owner@example.com", 'Reminder: "Send invoices" is due soon'],
+            ["assignee@example.com", 'Reminder: "Send invoices" is due soon'],
+            ["owner@example.com", 'Overdue: "File taxes"']
+        ]);
+        assert.match(notifier.sent[0].body, /within 1 hour\(s\), at 2030-01-10T12:30:00.000Z/);
+
+        assert.deepEqual(await scheduler.runOnce(), { reminded: 0, overdue: 0 });
+        assert.equal(notifier.sent.length, 3);
+    });
+});
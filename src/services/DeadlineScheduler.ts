@@ -0,0 +1,114 @@
+import { IUserRepository } from "../repositories/IUserRepository";
+import { TaskService } from "./TaskService";
+import { Notifier } from "./notifications/Notifier";
+import { Task } from "../types/DTOs";
+import { Logger } from "../utils/Logger";
+import { Metrics } from "../utils/Metrics";
+
+const notificationsSent = Metrics.counter("deadline_notifications_total", "Deadline reminders and overdue notices sent", ["kind"]);
+const notificationFailures = Metrics.counter("deadline_notification_failures_total", "Deadline notifications that could not be delivered");
+
+export interface DeadlineSchedulerOptions {
+    intervalSeconds: number;
+    // How long before a deadline to remind, e.g. [1440, 60] for a day and an hour
+    leadTimesMinutes: number[];
+}
+
+export interface DeadlineRunResult {
+    reminded: number;
+    overdue: number;
+}
+
+function describeLeadTime(minutes: number): string {
+    if (minutes % 1440 === 0) return `${minutes / 1440} day(s)`;
+    if (minutes % 60 === 0) return `${minutes / 60} hour(s)`;
+    return `${minutes} minute(s)`;
+}
+
+/**
+ * Periodically sends deadline reminders and marks tasks overdue, notifying
+ * the owner and the assignee. Runs in-process on a timer; each run is
+ * skipped while the previous one is still going. `runOnce` does a single
+ * pass, which together with TaskService's clock makes runs reproducible.
+ */
+export class DeadlineScheduler {
+    private timer?: NodeJS.Timeout;
+    private running = false;
+
+    constructor(
+        private taskService: TaskService,
+        private userRepository: IUserRepository,
+        private notifier: Notifier,
+        private options: DeadlineSchedulerOptions
+    ) { }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        Logger.info(`Checking deadlines every ${this.options.intervalSeconds}s`);
+        this.timer = setInterval(() => void this.tick(), this.options.intervalSeconds * 1000);
+        this.timer.unref();
+    }
+
+    stop(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    async runOnce(): Promise<DeadlineRunResult> {
+        const reminders = await this.taskService.claimReminders(this.options.leadTimesMinutes);
+        for (const { task, leadTimeMinutes } of reminders) {
+            await this.notify(task, "reminder",
+                `Reminder: "${task.title}" is due soon`,
+                `"${task.title}" is due within ${describeLeadTime(leadTimeMinutes)}, at ${new Date(task.deadline!).toISOString()}.`
+            );
+        }
+
+        const overdue = await this.taskService.markOverdue();
+        for (const task of overdue) {
+            await this.notify(task, "overdue",
+                `Overdue: "${task.title}"`,
+                `"${task.title}" was due at ${new Date(task.deadline!).toISOString()} and is still ${task.status}.`
+            );
+        }
+
+        if (reminders.length > 0 || overdue.length > 0) {
+            Logger.info(`Sent ${reminders.length} deadline reminder(s), marked ${overdue.length} task(s) overdue`);
+        }
+        return { reminded: reminders.length, overdue: overdue.length };
+    }
+
+    private async tick(): Promise<void> {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        try {
+            await this.runOnce();
+        } catch (error) {
+            Logger.error("Deadline check failed", error);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    // A failed delivery is logged and not retried; the task stays marked
+    private async notify(task: Task, kind: "reminder" | "overdue", subject: string, body: string): Promise<void> {
+        const recipientIds = [...new Set([task.ownerId, task.assigneeId].filter((id): id is string => !!id))];
+
+        for (const userId of recipientIds) {
+            const user = await this.userRepository.findById(userId);
+            if (!user || user.disabled) {
+                continue;
+            }
+            try {
+                await this.notifier.send({ to: user.email, subject, body });
+                notificationsSent.inc({ kind });
+            } catch (error) {
+                notificationFailures.inc();
+                Logger.error(`Could not send ${kind} for task ${task.id}`, error);
+            }
+        }
+    }
+}
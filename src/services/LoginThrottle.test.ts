@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import "../testing/fixtures";
+import { LoginThrottle } from "./LoginThrottle";
+import { RateLimitError } from "../errors/BaseError";
+
+const createThrottle = () => new LoginThrottle({
+    accountMaxFailures: 3, ipMaxFailures: 5, baseLockoutSeconds: 1, maxLockoutSeconds: 8, failureWindowSeconds: 60
+});
+
+// The seconds the throttle asks the client to wait, or 0 when it lets the login through
+function lockout(throttle: LoginThrottle, account: string, ip: string): number {
+    try {
+        throttle.assertAllowed(account, ip);
+        return 0;
+    } catch (error) {
+        assert.ok(error instanceof RateLimitError);
+        return error.retryAfterSeconds!;
+    }
+}
+
+describe("LoginThrottle", () => {
+    beforeEach(() => mock.timers.enable({ apis: ["Date", "setInterval"], now: 0 }));
+    afterEach(() => mock.timers.reset());
+
+    it("allows the configured failures before locking the account out", () => {
+        const throttle = createThrottle();
+
+        for (let i = 0; i < 3; i++) {
+            throttle.recordFailure("alice", "10.0.0.1");
+        }
+        assert.equal(lockout(throttle, "alice", "10.0.0.1"), 0);
+
+        throttle.recordFailure("alice", "10.0.0.1");
+        assert.equal(lockout(throttle, "alice", "10.0.0.1"), 1);
+        assert.equal(lockout(throttle, "alice", "10.0.0.2"), 1);
+    });
+
+    it("doubles the lockout with every further failure up to the maximum", () => {
+        const throttle = createThrottle();
+        const lockouts: number[] = [];
+
+        for (let i = 0; i < 8; i++) {
+            throttle.recordFailure("alice", `10.0.0.${i}`);
+            lockouts.push(lockout(throttle, "alice", "10.0.1.1"));
+        }
+
+        assert.deepEqual(lockouts, [0, 0, 0, 1, 2, 4, 8, 8]);
+    });
+
+    it("lets the account in again once the lockout has passed", () => {
+        const throttle = createThrottle();
+        for (let i = 0; i < 4; i++) {
+            throttle.recordFailure("alice", "10.0.0.1");
+        }
+
+        mock.timers.tick(999);
+        assert.equal(lockout(throttle, "alice", "10.0.0.1"), 0.001);
+        mock.timers.tick(1);
+        assert.equal(lockout(throttle, "alice", "10.0.0.1"), 0);
+    });
+
+    it("locks out a client that fails across many accounts", () => {
+        const throttle = createThrottle();
+
+        for (let i = 0; i < 6; i++) {
+            throttle.recordFailure(`user-${i}`, "10.0.0.1");
+        }
+
+        assert.equal(lockout(throttle, "someone-else", "10.0.0.1"), 1);
+        assert.equal(lockout(throttle, "someone-else", "10.0.0.2"), 0);
+    });
+
+    it("resets the account but not the client on a successful login", () => {
+        const throttle = createThrottle();
+        for (let i = 0; i < 5; i++) {
+            throttle.recordFailure("alice", "10.0.0.1");
+        }
+
+        throttle.recordSuccess("alice");
+        assert.equal(lockout(throttle, "alice", "10.0.0.2"), 0);
+
+        // The client's sixth failure still counts from the earlier five
+        throttle.recordFailure("bob", "10.0.0.1");
+        assert.equal(lockout(throttle, "bob", "10.0.0.1"), 1);
+    });
+
+    it("forgets failures older than the window", () => {
+        const throttle = createThrottle();
+        for (let i = 0; i < 3; i++) {
+            throttle.recordFailure("alice", "10.0.0.1");
+        }
+
+        mock.timers.tick(60001);
+        throttle.recordFailure("alice", "10.0.0.1");
+
+        assert.equal(lockout(throttle, "alice", "10.0.0.1"), 0);
+    });
+});
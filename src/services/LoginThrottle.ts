@@ -0,0 +1,100 @@
+import { RateLimitError } from "../errors/BaseError";
+import { Logger } from "../utils/Logger";
+import { Metrics } from "../utils/Metrics";
+
+const lockouts = Metrics.counter("login_lockouts_total", "Times an account or client was locked out of login", ["scope"]);
+
+export interface LoginThrottleOptions {
+    // Failures allowed before the first lockout
+    accountMaxFailures: number;
+    ipMaxFailures: number;
+    baseLockoutSeconds: number;
+    maxLockoutSeconds: number;
+    // Failures older than this are forgotten
+    failureWindowSeconds: number;
+}
+
+type Scope = "account" | "ip";
+
+interface FailureRecord {
+    failures: number;
+    lastFailureAt: number;
+    lockedUntil: number;
+}
+
+/**
+ * Counts failed logins per account and per client IP. Past the allowed
+ * number of failures each further failure locks the key out for twice as
+ * long as the previous one, up to `maxLockoutSeconds`.
+ */
+export class LoginThrottle {
+    private records: Map<string, FailureRecord> = new Map();
+
+    constructor(private options: LoginThrottleOptions) {
+        const sweepTimer = setInterval(() => this.sweep(), options.failureWindowSeconds * 1000);
+        sweepTimer.unref();
+    }
+
+    /** Throws a RateLimitError while the account or the client is locked out. */
+    assertAllowed(account: string, ip: string): void {
+        const now = Date.now();
+        const lockedUntil = Math.max(this.lockedUntil(`account:${account}`, now), this.lockedUntil(`ip:${ip}`, now));
+        if (lockedUntil > now) {
+            throw new RateLimitError("Too many failed login attempts, try again later", (lockedUntil - now) / 1000);
+        }
+    }
+
+    recordFailure(account: string, ip: string): void {
+        this.fail("account", `account:${account}`, this.options.accountMaxFailures);
+        this.fail("ip", `ip:${ip}`, this.options.ipMaxFailures);
+    }
+
+    /**
+     * Clears the account's failures. The IP's are kept, so an attacker cannot
+     * reset them by logging into an account of their own in between.
+     */
+    recordSuccess(account: string): void {
+        this.records.delete(`account:${account}`);
+    }
+
+    sweep(): void {
+        const now = Date.now();
+        for (const key of [...this.records.keys()]) {
+            this.current(key, now);
+        }
+    }
+
+    private fail(scope: Scope, key: string, maxFailures: number): void {
+        const now = Date.now();
+        const record = this.current(key, now) ?? { failures: 0, lastFailureAt: now, lockedUntil: 0 };
+        record.failures++;
+        record.lastFailureAt = now;
+
+        const excess = record.failures - maxFailures;
+        if (excess > 0) {
+            const seconds = Math.min(this.options.baseLockoutSeconds * 2 ** (excess - 1), this.options.maxLockoutSeconds);
+            record.lockedUntil = now + seconds * 1000;
+            lockouts.inc({ scope });
+            Logger.warn(`Locking out ${scope} after ${record.failures} failed logins`, { lockoutSeconds: seconds });
+        }
+        this.records.set(key, record);
+    }
+
+    private lockedUntil(key: string, now: number): number {
+        return this.current(key, now)?.lockedUntil ?? 0;
+    }
+
+    // Drops records that are neither locked nor recent
+    private current(key: string, now: number): FailureRecord | undefined {
+        const record = this.records.get(key);
+        if (!record) {
+            return undefined;
+        }
+        const forgetAt = Math.max(record.lockedUntil, record.lastFailureAt + this.options.failureWindowSeconds * 1000);
+        if (now > forgetAt) {
+            this.records.delete(key);
+            return undefined;
+        }
+        return record;
+    }
+}
@@ -0,0 +1,221 @@
+import { IProjectRepository } from "../repositories/IProjectRepository";
+import { IUserRepository } from "../repositories/IUserRepository";
+import { TaskService } from "./TaskService";
+import { CreateProjectDTO, DeleteProjectOptions, Project, ProjectMemberDTO, Task, UpdateProjectDTO } from "../types/DTOs";
+import { Logger } from "../utils/Logger";
+import { ConflictError, NotFoundError, ValidationError } from "../errors/BaseError";
+import { TransactionManager } from "../utils/TransactionManager";
+import { AccessPolicy, Action, Principal } from "../utils/AccessPolicy";
+import { Instrumented, Logged, Transactional } from "../decorators";
+import { assertValid } from "../validation/Schema";
+import { CreateProjectSchema, ProjectMemberSchema, UpdateProjectSchema } from "../validation/schemas";
+
+@Instrumented
+export class ProjectService {
+    constructor(
+        private projectRepository: IProjectRepository,
+        private userRepository: IUserRepository,
+        private taskService: TaskService,
+        private transactionManager: TransactionManager
+    ) { }
+
+    @Logged
+    async create(dto: CreateProjectDTO, actor: Principal): Promise<Project> {
+        assertValid(CreateProjectSchema, dto);
+        await this.assertNameAvailable(actor.userId, dto.name);
+
+        const project: Project = {
+            id: crypto.randomUUID(),
+            name: dto.name.trim(),
+            description: dto.description?.trim(),
+            ownerId: actor.userId,
+            memberIds: [],
+            archived: false,
+            createdAt: new Date()
+        };
+
+        const saved = await this.projectRepository.save(project);
+        Logger.info(`Project created successfully: ${project.id}`);
+        return saved;
+    }
+
+    /** Projects the user owns or is a member of; archived ones only on request. */
+    @Logged
+    async list(userId: string, includeArchived: boolean): Promise<Project[]> {
+        const projects = await this.projectRepository.findByUser(userId);
+        return includeArchived ? projects : projects.filter(p => !p.archived);
+    }
+
+    @Logged
+    async getById(id: string, actor: Principal): Promise<Project> {
+        const project = await this.loadProject(id);
+        AccessPolicy.authorize(actor, Action.PROJECT_READ, project);
+        return project;
+    }
+
+    @Logged
+    async update(id: string, dto: UpdateProjectDTO, actor: Principal): Promise<Project> {
+        assertValid(UpdateProjectSchema, dto);
+
+        const existing = await this.loadProject(id);
+        AccessPolicy.authorize(actor, Action.PROJECT_UPDATE, existing);
+
+        const updates: Partial<Project> = {};
+        if (dto.name !== undefined) {
+            await this.assertNameAvailable(existing.ownerId, dto.name, id);
+            updates.name = dto.name.trim();
+        }
+        if (dto.description !== undefined) updates.description = dto.description.trim();
+
+        return this.save(id, updates);
+    }
+
+    /** Archived projects keep their tasks but hide them from task listings. */
+    @Logged
+    async archive(id: string, actor: Principal): Promise<Project> {
+        return this.setArchived(id, true, actor);
+    }
+
+    @Logged
+    async unarchive(id: string, actor: Principal): Promise<Project> {
+        return this.setArchived(id, false, actor);
+    }
+
+    @Logged
+    async addMember(id: string, dto: ProjectMemberDTO, actor: Principal): Promise<Project> {
+        assertValid(ProjectMemberSchema, dto);
+
+        const existing = await this.loadProject(id);
+        AccessPolicy.authorize(actor, Action.PROJECT_UPDATE, existing);
+
+        if (dto.userId === existing.ownerId) {
+            throw new ValidationError("Validation failed", [
+                { field: "userId", message: "The owner is already part of the project" }
+            ]);
+        }
+        const member = await this.userRepository.findById(dto.userId);
+        if (!member) {
+            throw new NotFoundError("User not found");
+        }
+        if (existing.memberIds.includes(dto.userId)) {
+            return existing;
+        }
+
+        return this.save(id, { memberIds: [...existing.memberIds, dto.userId] });
+    }
+
+    /** Owners and admins can remove anyone; members can always leave. */
+    @Logged
+    async removeMember(id: string, userId: string, actor: Principal): Promise<Project> {
+        const existing = await this.loadProject(id);
+        if (actor.userId !== userId) {
+            AccessPolicy.authorize(actor, Action.PROJECT_UPDATE, existing);
+        }
+        if (!existing.memberIds.includes(userId)) {
+            throw new NotFoundError("Member not found");
+        }
+
+        return this.save(id, { memberIds: existing.memberIds.filter(m => m !== userId) });
+    }
+
+    /**
+     * Deletes the project and, in the same transaction, either deletes its
+     * tasks or moves them to another project (or out of any project).
+     */
+    @Logged
+    @Transactional
+    async delete(id: string, options: DeleteProjectOptions, actor: Principal): Promise<number> {
+        const project = await this.loadProject(id);
+        AccessPolicy.authorize(actor, Action.PROJECT_DELETE, project);
+
+        let affected: Task[];
+        if (options.tasks === "delete") {
+            affected = await this.taskService.deleteProjectTasks(id);
+        } else {
+            if (options.targetProjectId !== undefined) {
+                await this.assertMoveTarget(id, options.targetProjectId, actor);
+            }
+            affected = await this.taskService.moveProjectTasks(id, options.targetProjectId);
+        }
+
+        await this.projectRepository.delete(id);
+        Logger.info(`Deleted project ${id}; ${options.tasks === "delete" ? "deleted" : "moved"} ${affected.length} task(s)`);
+
+        return affected.length;
+    }
+
+    /**
+     * Cleans up after an account deletion: the user's own projects are deleted,
+     * their remaining tasks moved out of any project, and the user leaves
+     * every project they were a member of.
+     */
+    @Logged
+    @Transactional
+    async removeUser(userId: string): Promise<void> {
+        const projects = await this.projectRepository.findByUser(userId);
+        for (const project of projects) {
+            if (project.ownerId === userId) {
+                await this.taskService.moveProjectTasks(project.id);
+                await this.projectRepository.delete(project.id);
+            } else {
+                await this.projectRepository.update(project.id, {
+                    memberIds: project.memberIds.filter(m => m !== userId)
+                });
+            }
+        }
+        Logger.info(`Removed user ${userId} from ${projects.length} project(s)`);
+    }
+
+    private async setArchived(id: string, archived: boolean, actor: Principal): Promise<Project> {
+        const existing = await this.loadProject(id);
+        AccessPolicy.authorize(actor, Action.PROJECT_UPDATE, existing);
+        if (existing.archived === archived) {
+            return existing;
+        }
+
+        const updated = await this.save(id, { archived, archivedAt: archived ? new Date() : undefined });
+        await this.taskService.evictProjectTasks(id);
+        Logger.info(`Project ${id} ${archived ? "archived" : "restored"}`);
+        return updated;
+    }
+
+    private async assertMoveTarget(sourceId: string, targetId: string, actor: Principal): Promise<void> {
+        if (targetId === sourceId) {
+            throw new ValidationError("Validation failed", [
+                { field: "targetProjectId", message: "Tasks cannot be moved to the project being deleted" }
+            ]);
+        }
+        const target = await this.projectRepository.findById(targetId);
+        if (!target) {
+            throw new NotFoundError("Target project not found");
+        }
+        AccessPolicy.authorize(actor, Action.PROJECT_ADD_TASK, target);
+        if (target.archived) {
+            throw new ConflictError("Target project is archived");
+        }
+    }
+
+    // Project names are unique per owner, ignoring case
+    private async assertNameAvailable(ownerId: string, name: string, excludeId?: string): Promise<void> {
+        const existing = await this.projectRepository.findByOwnerAndName(ownerId, name, excludeId);
+        if (existing) {
+            throw new ConflictError("A project with this name already exists");
+        }
+    }
+
+    private async loadProject(id: string): Promise<Project> {
+        const project = await this.projectRepository.findById(id);
+        if (!project) {
+            throw new NotFoundError("Project not found");
+        }
+        return project;
+    }
+
+    private async save(id: string, updates: Partial<Project>): Promise<Project> {
+        const updated = await this.projectRepository.update(id, updates);
+        if (!updated) {
+            throw new NotFoundError("Project not found");
+        }
+        return updated;
+    }
+}
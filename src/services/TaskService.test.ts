@@ -0,0 +1,290 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildTask, buildUser, createTaskFixture } from "../testing/fixtures";
+import { TaskRepository } from "../repositories/TaskRepository";
+import { ConflictError, ForbiddenError, ValidationError } from "../errors/BaseError";
+import { RecurrenceFrequency, Role, ShareRole, Task, TaskStatus, UpdateTaskDTO } from "../types/DTOs";
+import { Principal } from "../utils/AccessPolicy";
+import { TransactionManager } from "../utils/TransactionManager";
+
+class FailingTaskRepository extends TaskRepository {
+    constructor(transactionManager: TransactionManager, private failOn: "removeCollaborator" | "unlinkDeleted") {
+        super(transactionManager);
+    }
+
+    async removeCollaborator(userId: string): Promise<Task[]> {
+        if (this.failOn === "removeCollaborator") throw new Error("removeCollaborator failed");
+        return super.removeCollaborator(userId);
+    }
+
+    async unlinkDeleted(ids: string[]): Promise<Task[]> {
+        if (this.failOn === "unlinkDeleted") throw new Error("unlinkDeleted failed");
+        return super.unlinkDeleted(ids);
+    }
+}
+
+describe("TaskService transactions", () => {
+    it("restores every task when deleteByOwner fails partway", async () => {
+        const { taskService, taskRepository, userRepository } = createTaskFixture({
+            createTaskRepository: manager => new FailingTaskRepository(manager, "removeCollaborator")
+        });
+        const owner = await userRepository.save(buildUser());
+        const other = await userRepository.save(buildUser());
+        const first = await taskRepository.save(buildTask(owner.id));
+        const second = await taskRepository.save(buildTask(owner.id));
+        const dependent = await taskRepository.save(buildTask(other.id, {
+            blockedBy: [first.id],
+            collaborators: [{ userId: owner.id, role: ShareRole.EDITOR, sharedBy: other.id, sharedAt: new Date() }]
+        }));
+
+        await assert.rejects(taskService.deleteByOwner(owner.id), /removeCollaborator failed/);
+
+        assert.deepEqual(await taskRepository.findById(first.id), first);
+        assert.deepEqual(await taskRepository.findById(second.id), second);
+        assert.deepEqual(await taskRepository.findById(dependent.id), dependent);
+    });
+
+    it("restores the task and its links when delete fails partway", async () => {
+        const { taskService, taskRepository, userRepository } = createTaskFixture({
+            createTaskRepository: manager => new FailingTaskRepository(manager, "unlinkDeleted")
+        });
+        const owner = await userRepository.save(buildUser());
+        const task = await taskRepository.save(buildTask(owner.id));
+        const dependent = await taskRepository.save(buildTask(owner.id, { blockedBy: [task.id] }));
+
+        await assert.rejects(taskService.delete(task.id, { userId: owner.id, role: Role.USER }), /unlinkDeleted failed/);
+
+        assert.deepEqual(await taskRepository.findById(task.id), task);
+        assert.deepEqual(await taskRepository.findById(dependent.id), dependent);
+    });
+
+    it("restores every task when deleteMultiple fails partway", async () => {
+        const { taskService, taskRepository, userRepository } = createTaskFixture({
+            createTaskRepository: manager => new FailingTaskRepository(manager, "unlinkDeleted")
+        });
+        const owner = await userRepository.save(buildUser());
+        const first = await taskRepository.save(buildTask(owner.id));
+        const second = await taskRepository.save(buildTask(owner.id));
+
+        await assert.rejects(
+            taskService.deleteMultiple([first.id, second.id], { userId: owner.id, role: Role.USER }),
+            /unlinkDeleted failed/
+        );
+
+        assert.deepEqual(await taskRepository.findById(first.id), first);
+        assert.deepEqual(await taskRepository.findById(second.id), second);
+    });
+
+    it("keeps an overlapping create when another one is rolled back", async () => {
+        let releaseValid!: () => void;
+        const validHeld = new Promise<void>(resolve => releaseValid = resolve);
+        let markSaved!: () => void;
+        const validSaved = new Promise<void>(resolve => markSaved = resolve);
+
+        // The valid create saves and then waits, so the duplicate fails and
+        // rolls back while the valid transaction is still open
+        class GatedTaskRepository extends TaskRepository {
+            async save(task: Task): Promise<Task> {
+                const saved = await super.save(task);
+                if (task.title === "Write the report") {
+                    markSaved();
+                    await validHeld;
+                }
+                return saved;
+            }
+
+            async findByOwnerAndTitlePattern(ownerId: string, titlePattern: string, excludeId?: string): Promise<Task[]> {
+                if (titlePattern === "Existing task") {
+                    await validSaved;
+                }
+                return super.findByOwnerAndTitlePattern(ownerId, titlePattern, excludeId);
+            }
+        }
+
+        const { taskService, taskRepository, userRepository } = createTaskFixture({
+            createTaskRepository: manager => new GatedTaskRepository(manager)
+        });
+        const owner = await userRepository.save(buildUser());
+        await taskRepository.save(buildTask(owner.id, { title: "Existing task" }));
+
+        const valid = taskService.create({ title: "Write the report", ownerId: owner.id });
+        const duplicate = taskService.create({ title: "Existing task", ownerId: owner.id });
+
+        await assert.rejects(duplicate, ConflictError);
+        releaseValid();
+        const created = await valid;
+
+        assert.equal((await taskRepository.findById(created.id))?.title, "Write the report");
+        assert.equal((await taskRepository.findByOwner(owner.id)).length, 2);
+    });
+});
+
+describe("TaskService recurring tasks", () => {
+    it("anchors the rule to the first deadline when the task is created", async () => {
+        const { taskService, userRepository } = createTaskFixture();
+        const owner = await userRepository.save(buildUser());
+
+        const task = await taskService.create({
+            title: "Pay the rent",
+            ownerId: owner.id,
+            deadline: new Date("2030-01-31T09:00:00Z"),
+            recurrence: { frequency: RecurrenceFrequency.MONTHLY }
+        });
+
+        assert.equal(task.recurrence?.rule.byMonthDay, 31);
+    });
+});
+
+describe("TaskService collaborators", () => {
+    async function setUp() {
+        const fixture = createTaskFixture();
+        const save = async () => {
+            const user = await fixture.userRepository.save(buildUser());
+            return { userId: user.id, role: Role.USER } as Principal;
+        };
+        const [owner, viewer, editor, stranger] = [await save(), await save(), await save(), await save()];
+        const task = await fixture.taskService.create({ title: "Plan the offsite", ownerId: owner.userId });
+        await fixture.taskService.share(task.id, { userId: viewer.userId, role: ShareRole.VIEWER }, owner);
+        await fixture.taskService.share(task.id, { userId: editor.userId, role: ShareRole.EDITOR }, owner);
+        return { ...fixture, owner, viewer, editor, stranger, task };
+    }
+
+    it("lets viewers read but only editors change a shared task", async () => {
+        const { taskService, task, viewer, editor, stranger } = await setUp();
+
+        assert.equal((await taskService.getById(task.id, viewer)).id, task.id);
+        await assert.rejects(taskService.getById(task.id, stranger), ForbiddenError);
+        await assert.rejects(taskService.update(task.id, { title: "Viewer edit" }, viewer), ForbiddenError);
+
+        const updated = await taskService.update(task.id, { title: "Editor edit" }, editor);
+        assert.equal(updated.title, "Editor edit");
+    });
+
+    it("keeps sharing to the owner", async () => {
+        const { taskService, task, editor, stranger } = await setUp();
+
+        await assert.rejects(taskService.share(task.id, { userId: stranger.userId, role: ShareRole.VIEWER }, editor), ForbiddenError);
+        await assert.rejects(taskService.unshare(task.id, stranger.userId, editor), ForbiddenError);
+    });
+
+    it("hands the task to a new assignee and makes the previous one an editor", async () => {
+        const { taskService, task, owner, viewer, stranger } = await setUp();
+        await taskService.share(task.id, { userId: viewer.userId, role: ShareRole.ASSIGNEE }, owner);
+
+        const reassigned = await taskService.share(task.id, { userId: stranger.userId, role: ShareRole.ASSIGNEE }, owner);
+
+        assert.equal(reassigned.assigneeId, stranger.userId);
+        assert.equal(reassigned.collaborators.find(c => c.userId === viewer.userId)?.role, ShareRole.EDITOR);
+        assert.equal((await taskService.update(task.id, { status: TaskStatus.IN_PROGRESS }, stranger)).status, TaskStatus.IN_PROGRESS);
+        assert.deepEqual((await taskService.getAssigned(stranger.userId, { limit: 20, offset: 0 })).items.map(t => t.id), [task.id]);
+        assert.equal((await taskService.getAssigned(viewer.userId, { limit: 20, offset: 0 })).total, 0);
+    });
+
+    it("revokes access as soon as a collaborator is removed, even after a cached read", async () => {
+        const { taskService, task, owner, viewer, editor } = await setUp();
+        await taskService.getById(task.id, viewer);
+
+        await taskService.unshare(task.id, viewer.userId, owner);
+        await taskService.unshare(task.id, editor.userId, editor);
+
+        await assert.rejects(taskService.getById(task.id, viewer), ForbiddenError);
+        await assert.rejects(taskService.getById(task.id, editor), ForbiddenError);
+    });
+
+    it("takes a deleted user off every task shared with them", async () => {
+        const { taskService, taskRepository, task, editor } = await setUp();
+
+        await taskService.deleteByOwner(editor.userId);
+
+        const collaborators = (await taskRepository.findById(task.id))!.collaborators;
+        assert.equal(collaborators.some(c => c.userId === editor.userId), false);
+    });
+});
+
+describe("TaskService subtasks and dependencies", () => {
+    async function setUp() {
+        const fixture = createTaskFixture();
+        const user = await fixture.userRepository.save(buildUser());
+        const owner: Principal = { userId: user.id, role: Role.USER };
+        const create = (title: string, parentId?: string) => fixture.taskService.create({ title, ownerId: user.id, parentId });
+        return { ...fixture, owner, create };
+    }
+
+    // The messages of the ValidationError `promise` rejects with
+    async function validationMessages(promise: Promise<unknown>): Promise<string[]> {
+        const error = await promise.then(() => null, (e: unknown) => e);
+        assert.ok(error instanceof ValidationError, "expected a ValidationError");
+        return error.fields.map(f => f.message);
+    }
+
+    it("refuses a dependency that closes a cycle and names the chain", async () => {
+        const { taskService, owner, create } = await setUp();
+        const design = await create("Design");
+        const build = await create("Build");
+        const ship = await create("Ship");
+        await taskService.addDependency(build.id, design.id, owner);
+        await taskService.addDependency(ship.id, build.id, owner);
+
+        const messages = await validationMessages(taskService.addDependency(design.id, ship.id, owner));
+
+        assert.deepEqual(messages, ['Adding this dependency would create a cycle: "Design" -> "Ship" -> "Build" -> "Design"']);
+        assert.deepEqual((await taskService.getById(design.id, owner)).blockedBy, []);
+    });
+
+    it("refuses a task that depends on itself", async () => {
+        const { taskService, owner, create } = await setUp();
+        const task = await create("Loop");
+
+        assert.deepEqual(await validationMessages(taskService.addDependency(task.id, task.id, owner)), ["A task cannot depend on itself"]);
+    });
+
+    it("allows dependencies that share a blocker without forming a cycle", async () => {
+        const { taskService, owner, create } = await setUp();
+        const base = await create("Base");
+        const left = await create("Left");
+        const right = await create("Right");
+        await taskService.addDependency(left.id, base.id, owner);
+        await taskService.addDependency(right.id, base.id, owner);
+
+        const updated = await taskService.addDependency(right.id, left.id, owner);
+
+        assert.deepEqual(updated.blockedBy, [base.id, left.id]);
+    });
+
+    it("keeps a blocked task from starting until its blockers are closed", async () => {
+        const { taskService, owner, create } = await setUp();
+        const blocker = await create("Blocker");
+        const blocked = await create("Blocked");
+        await taskService.addDependency(blocked.id, blocker.id, owner);
+
+        await assert.rejects(taskService.update(blocked.id, { status: TaskStatus.IN_PROGRESS }, owner), /blocked by unfinished tasks/);
+        await taskService.update(blocker.id, { status: TaskStatus.IN_PROGRESS }, owner);
+        await taskService.update(blocker.id, { status: TaskStatus.DONE }, owner);
+
+        assert.equal((await taskService.update(blocked.id, { status: TaskStatus.IN_PROGRESS }, owner)).status, TaskStatus.IN_PROGRESS);
+    });
+
+    it("does not let an update move a task under its own subtask", async () => {
+        const { taskService, owner, create } = await setUp();
+        const parent = await create("Parent");
+        const child = await create("Child", parent.id);
+
+        // Parents are only chosen at creation, when the new task cannot have subtasks yet
+        await assert.rejects(taskService.update(parent.id, { parentId: child.id } as UpdateTaskDTO, owner), ValidationError);
+
+        assert.equal((await taskService.getById(parent.id, owner)).parentId, undefined);
+        assert.equal((await taskService.getById(child.id, owner)).parentId, parent.id);
+    });
+
+    it("rolls subtask progress up to the parent", async () => {
+        const { taskService, owner, create } = await setUp();
+        const parent = await create("Parent");
+        const first = await create("First step", parent.id);
+        await create("Second step", parent.id);
+
+        await taskService.update(first.id, { status: TaskStatus.IN_PROGRESS }, owner);
+        await taskService.update(first.id, { status: TaskStatus.DONE }, owner);
+
+        assert.deepEqual((await taskService.getById(parent.id, owner)).progress, { total: 2, done: 1, percent: 50 });
+    });
+});
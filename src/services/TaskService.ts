@@ -1,351 +1,750 @@
-import { TaskRepository } from "../repositories/TaskRepository";
-import { UserRepository } from "../repositories/UserRepository";
-import { CreateTaskDTO, Task, UpdateTaskDTO } from "../types/DTOs";
+import { ITaskRepository } from "../repositories/ITaskRepository";
+import { IUserRepository } from "../repositories/IUserRepository";
+import { IProjectRepository } from "../repositories/IProjectRepository";
+import {
+    CreateTaskDTO, DeadlineReminder, PaginatedResult, Project, ShareRole, ShareTaskDTO, SubtaskProgress, Task, TaskQuery, TaskShare, TaskStatus,
+    TaskStatusChange, UpdateTaskDTO
+} from "../types/DTOs";
 import { Logger } from "../utils/Logger";
-import { NotFoundError, ValidationError } from "../errors/BaseError";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "../errors/BaseError";
 import { CacheService } from "./CacheService";
 import { TransactionManager } from "../utils/TransactionManager";
+import { TaskWorkflow } from "../utils/TaskWorkflow";
+import { Recurrence } from "../utils/Recurrence";
+import { Clock } from "../utils/Clock";
+import { AccessPolicy, Action, Principal } from "../utils/AccessPolicy";
+import { CacheEvict, Cached, Instrumented, Logged, Transactional } from "../decorators";
+import { assertValid, validate } from "../validation/Schema";
+import { CreateTaskSchema, ShareTaskSchema, TaskDependencySchema, UpdateTaskSchema } from "../validation/schemas";
+
+// Field order is fixed so that equal queries always map to the same key
+function ownerListCacheKey(ownerId: string, query: TaskQuery): string {
+    const parts = [
+        query.status, query.priority, query.deadlineFrom?.toISOString(), query.deadlineTo?.toISOString(),
+        query.search, query.projectId, query.sortBy, query.sortOrder, query.limit, query.offset
+    ];
+    return `tasks:owner:${ownerId}:${JSON.stringify(parts)}`;
+}
+
+// Cache tags: a single task, every cached entry for an owner's tasks, and the
+// owner's (paginated) listings
+const taskTag = (id: string) => `task:${id}`;
+const ownerTag = (ownerId: string) => `owner:${ownerId}`;
+const ownerListTag = (ownerId: string) => `tasks:owner:${ownerId}`;
+const changedTaskTags = (task: Task) => [taskTag(task.id), ownerListTag(task.ownerId)];
 
+@Instrumented
 export class TaskService {
     constructor(
-        private taskRepository: TaskRepository,
-        private userRepository: UserRepository,
+        private taskRepository: ITaskRepository,
+        private userRepository: IUserRepository,
+        private projectRepository: IProjectRepository,
         private cacheService: CacheService,
-        private transactionManager: TransactionManager
+        private transactionManager: TransactionManager,
+        private clock: Clock
     ) { }
 
+    @Logged
+    @Transactional
+    @CacheEvict(changedTaskTags)
     async create(dto: CreateTaskDTO): Promise<Task> {
-        Logger.info("Entering create task");
         Logger.debug(`Creating task with title: ${dto.title}`);
+        Logger.debug("Validating task data");
+        const now = this.clock.now();
+        assertValid(CreateTaskSchema, dto, { now });
 
-        try {
-            Logger.debug("Validating task data");
-
-            // Title validation
-            if (!dto.title) {
-                throw new ValidationError("Title is required");
-            }
-            if (dto.title.trim().length < 3) {
-                throw new ValidationError("Title must be at least 3 characters long");
-            }
-            if (dto.title.length > 100) {
-                throw new ValidationError("Title must not exceed 100 characters");
-            }
-
-            // Description validation
-            if (dto.description && dto.description.length > 500) {
-                throw new ValidationError("Description must not exceed 500 characters");
-            }
-
-            // Deadline validation
-            if (dto.deadline) {
-                const deadlineDate = new Date(dto.deadline);
-                const now = new Date();
-
-                if (isNaN(deadlineDate.getTime())) {
-                    throw new ValidationError("Invalid deadline date format");
-                }
-
-                if (deadlineDate < now) {
-                    throw new ValidationError("Deadline cannot be in the past");
-                }
-
-                // Ensure deadline is within reasonable future
-                const fiveYearsFromNow = new Date();
-                fiveYearsFromNow.setFullYear(fiveYearsFromNow.getFullYear() + 5);
-                if (deadlineDate > fiveYearsFromNow) {
-                    throw new ValidationError("Deadline cannot be more than 5 years in the future");
-                }
+        const owner = await this.userRepository.findById(dto.ownerId);
+        if (!owner) {
+            throw new NotFoundError("Owner not found");
+        }
+        if (!owner.emailVerified) {
+            throw new ForbiddenError("Verify your email address before creating tasks");
+        }
+        const principal: Principal = { userId: owner.id, role: owner.role };
+
+        // Subtasks live in their parent's project
+        let projectId = dto.projectId;
+        if (dto.parentId) {
+            const parent = await this.taskRepository.findById(dto.parentId);
+            if (!parent) {
+                throw new NotFoundError("Parent task not found");
             }
-
-            // Priority validation
-            if (dto.priority && !['LOW', 'MEDIUM', 'HIGH'].includes(dto.priority)) {
-                throw new ValidationError("Priority must be LOW, MEDIUM, or HIGH");
+            AccessPolicy.authorize(principal, Action.TASK_UPDATE, parent);
+            if (projectId !== undefined && projectId !== parent.projectId) {
+                throw new ValidationError("Validation failed", [
+                    { field: "projectId", message: "A subtask must be in the same project as its parent" }
+                ]);
             }
+            projectId = parent.projectId;
+        }
+        if (projectId) {
+            await this.assertCanAddToProject(projectId, principal);
+        }
 
-            this.transactionManager.begin();
-
-            try {
-                const owner = await this.userRepository.findById(dto.ownerId);
-                if (!owner) {
-                    throw new NotFoundError("Owner not found");
-                }
-
-                // Check for duplicate task titles for the same user
-                const similarTasks = await this.taskRepository.findByOwnerAndTitlePattern(
-                    dto.ownerId,
-                    dto.title.trim()
-                );
-
-                if (similarTasks.length > 0) {
-                    Logger.debug(`Found ${similarTasks.length} similar task(s) for user`);
-                    throw new ValidationError("A task with similar title already exists for this user");
-                }
-
-                const task: Task = {
-                    id: crypto.randomUUID(),
-                    title: dto.title.trim(),
-                    description: dto.description?.trim(),
-                    status: "TODO",
-                    deadline: dto.deadline ? new Date(dto.deadline) : undefined,
-                    priority: dto.priority || 'MEDIUM',
-                    ownerId: dto.ownerId,
-                    createdAt: new Date()
-                };
-
-                const savedTask = await this.taskRepository.save(task);
-
-                this.transactionManager.commit();
-                Logger.info(`Task created successfully: ${task.id}`);
-
-                return savedTask;
-            } catch (error) {
-                this.transactionManager.rollback();
-                throw error;
-            }
-        } catch (error) {
-            Logger.error("Error creating task", error);
-            throw error;
+        await this.assertTitleAvailable(dto.title, dto.ownerId, projectId);
+        if (dto.recurrence) {
+            Recurrence.assertValid(dto.recurrence, dto.deadline);
         }
+
+        const id = crypto.randomUUID();
+        const deadline = dto.deadline ? new Date(dto.deadline) : undefined;
+        const task: Task = {
+            id,
+            title: dto.title.trim(),
+            description: dto.description?.trim(),
+            status: TaskStatus.TODO,
+            deadline,
+            priority: dto.priority || 'MEDIUM',
+            ownerId: dto.ownerId,
+            projectId,
+            collaborators: [],
+            parentId: dto.parentId,
+            blockedBy: [],
+            recurrence: dto.recurrence && {
+                rule: Recurrence.anchor(
+                    { ...dto.recurrence, until: dto.recurrence.until ? new Date(dto.recurrence.until) : undefined },
+                    deadline!
+                ),
+                seriesId: id,
+                occurrence: 1
+            },
+            createdAt: now,
+            statusHistory: [TaskWorkflow.change(null, TaskStatus.TODO, dto.ownerId, now)]
+        };
+
+        const savedTask = await this.taskRepository.save(task);
+        await this.rollUpProgress([task.parentId]);
+        Logger.info(`Task created successfully: ${task.id}`);
+
+        return savedTask;
     }
 
-    async delete(id: string): Promise<void> {
-        Logger.info("Entering delete task");
+    /**
+     * Deletes the task and, in the same transaction, drops it from the
+     * dependencies and subtasks that pointed at it.
+     */
+    @Logged
+    @Transactional
+    @CacheEvict(changedTaskTags)
+    async delete(id: string, actor: Principal): Promise<Task> {
         Logger.debug(`Deleting task with id: ${id}`);
 
-        try {
-            await this.taskRepository.delete(id);
-            this.cacheService.invalidate(`task:${id}`);
-        } catch (error) {
-            Logger.error("Error deleting task", error);
-            throw error;
-        }
+        const task = await this.loadTask(id);
+        AccessPolicy.authorize(actor, Action.TASK_DELETE, task);
+
+        await this.taskRepository.delete(id);
+        await this.unlinkDeleted([task]);
+
+        return task;
     }
 
+    /**
+     * Deletes the user's tasks and takes them off every task shared with
+     * them, so no share points at tasks or users that are gone.
+     */
+    @Logged
+    @Transactional
+    @CacheEvict((_count: number, ownerId: string) => [ownerTag(ownerId), ownerListTag(ownerId)])
     async deleteByOwner(ownerId: string): Promise<number> {
-        Logger.info("Entering deleteByOwner");
         Logger.debug(`Deleting all tasks for user: ${ownerId}`);
+        Logger.debug("Validating owner exists");
 
-        try {
-            Logger.debug("Validating owner exists");
+        const owner = await this.userRepository.findById(ownerId);
+        if (!owner) {
+            throw new NotFoundError("Owner not found");
+        }
 
-            const owner = await this.userRepository.findById(ownerId);
-            if (!owner) {
-                throw new NotFoundError("Owner not found");
-            }
+        const owned = await this.taskRepository.findByOwner(ownerId);
+        const deletedCount = await this.taskRepository.deleteByOwner(ownerId);
+        await this.unlinkDeleted(owned);
+        const unshared = await this.taskRepository.removeCollaborator(ownerId);
+        Logger.info(`Successfully deleted ${deletedCount} tasks for user: ${ownerId}`);
+        Logger.info(`Removed user ${ownerId} from ${unshared.length} shared task(s)`);
 
-            this.transactionManager.begin();
+        await this.cacheService.invalidateTags(unshared.flatMap(changedTaskTags));
 
-            try {
-                const deletedCount = await this.taskRepository.deleteByOwner(ownerId);
+        return deletedCount;
+    }
 
-                // Invalidate all cached tasks for this owner
-                this.cacheService.clear();
+    @Logged
+    @Transactional
+    async deleteMultiple(ids: string[], actor: Principal): Promise<number> {
+        Logger.debug("Validating task IDs");
 
-                this.transactionManager.commit();
-                Logger.info(`Successfully deleted ${deletedCount} tasks for user: ${ownerId}`);
+        if (!ids || ids.length === 0) {
+            throw new ValidationError("At least one task ID required");
+        }
 
-                return deletedCount;
-            } catch (error) {
-                this.transactionManager.rollback();
-                throw error;
+        // All or nothing: one forbidden task rejects the whole batch
+        const tasks: Task[] = [];
+        for (const id of ids) {
+            const task = await this.taskRepository.findById(id);
+            if (task) {
+                AccessPolicy.authorize(actor, Action.TASK_DELETE, task);
+                tasks.push(task);
             }
-        } catch (error) {
-            Logger.error("Error deleting tasks by owner", error);
-            throw error;
         }
-    }
 
-    async deleteMultiple(ids: string[]): Promise<number> {
-        Logger.info("Entering deleteMultiple");
         Logger.debug(`Deleting ${ids.length} tasks`);
+        const deletedCount = await this.taskRepository.deleteMultiple(ids);
+        await this.unlinkDeleted(tasks);
+        Logger.info(`Successfully deleted ${deletedCount} tasks`);
 
-        try {
-            Logger.debug("Validating task IDs");
+        // The owners are only known once the tasks are loaded, so evict here
+        // rather than through @CacheEvict
+        await this.cacheService.invalidateTags(tasks.flatMap(changedTaskTags));
 
-            if (!ids || ids.length === 0) {
-                throw new ValidationError("At least one task ID required");
-            }
+        return deletedCount;
+    }
+
+    @Logged
+    async getById(id: string, actor: Principal): Promise<Task> {
+        Logger.debug(`Fetching task with id: ${id}`);
 
-            this.transactionManager.begin();
+        const task = await this.loadTask(id);
+        AccessPolicy.authorize(actor, Action.TASK_READ, task);
 
-            try {
-                const deletedCount = await this.taskRepository.deleteMultiple(ids);
+        return task;
+    }
 
-                // Invalidate cache for deleted tasks
-                ids.forEach(id => this.cacheService.invalidate(`task:${id}`));
+    // Cached separately from getById so that cache hits are still authorized
+    @Cached((id: string) => `task:${id}`, { tags: (task: Task) => [taskTag(task.id), ownerTag(task.ownerId)] })
+    private async loadTask(id: string): Promise<Task> {
+        const task = await this.taskRepository.findById(id);
+        if (!task) {
+            throw new NotFoundError("Task not found");
+        }
 
-                this.transactionManager.commit();
-                Logger.info(`Successfully deleted ${deletedCount} tasks`);
+        return task;
+    }
 
-                return deletedCount;
-            } catch (error) {
-                this.transactionManager.rollback();
-                throw error;
-            }
-        } catch (error) {
-            Logger.error("Error deleting multiple tasks", error);
-            throw error;
+    @Logged
+    @Cached(ownerListCacheKey, { tags: (_page: PaginatedResult<Task>, ownerId: string) => [ownerTag(ownerId), ownerListTag(ownerId)] })
+    async getByOwner(ownerId: string, query: TaskQuery): Promise<PaginatedResult<Task>> {
+        Logger.debug(`Fetching all tasks for owner: ${ownerId}`);
+        Logger.debug("Validating owner exists");
+
+        const owner = await this.userRepository.findById(ownerId);
+        if (!owner) {
+            throw new NotFoundError("Owner not found");
         }
+
+        const archived = await this.projectRepository.findArchivedIds();
+        const page = await this.taskRepository.queryByOwner(ownerId, query, archived);
+        Logger.info(`Fetched ${page.items.length} of ${page.total} tasks for owner: ${ownerId}`);
+
+        return page;
     }
 
-    async getById(id: string): Promise<Task> {
-        Logger.info("Entering getById task");
-        Logger.debug(`Fetching task with id: ${id}`);
+    @Logged
+    async getAssigned(assigneeId: string, query: TaskQuery): Promise<PaginatedResult<Task>> {
+        Logger.debug(`Fetching tasks assigned to: ${assigneeId}`);
 
-        try {
-            const cached = this.cacheService.get(`task:${id}`);
-            if (cached) {
-                Logger.info("Returning task from cache");
-                return cached;
-            }
+        const archived = await this.projectRepository.findArchivedIds();
+        const page = await this.taskRepository.queryByAssignee(assigneeId, query, archived);
+        Logger.info(`Fetched ${page.items.length} of ${page.total} tasks assigned to: ${assigneeId}`);
 
-            const task = await this.taskRepository.findById(id);
-            if (!task) {
-                throw new NotFoundError("Task not found");
+        return page;
+    }
+
+    /** Open tasks the user owns or is assigned to that are past their deadline, most overdue first. */
+    @Logged
+    async getOverdue(userId: string): Promise<Task[]> {
+        const archived = await this.projectRepository.findArchivedIds();
+        const overdue = await this.taskRepository.findOpenDueBefore(this.clock.now());
+
+        return overdue
+            .filter(t => (t.ownerId === userId || t.assigneeId === userId) && !archived.includes(t.projectId ?? ""))
+            .sort((a, b) => new Date(a.deadline!).getTime() - new Date(b.deadline!).getTime());
+    }
+
+    /** Marks open tasks past their deadline as overdue; returns the ones newly marked. */
+    @Logged
+    @Transactional
+    @CacheEvict((tasks: Task[]) => tasks.flatMap(changedTaskTags))
+    async markOverdue(): Promise<Task[]> {
+        const now = this.clock.now();
+        const due = await this.taskRepository.findOpenDueBefore(now);
+
+        const marked: Task[] = [];
+        for (const task of due.filter(t => !t.overdueAt && new Date(t.deadline!) < now)) {
+            const updated = await this.taskRepository.update(task.id, { overdueAt: now });
+            if (updated) {
+                marked.push(updated);
             }
+        }
+        return marked;
+    }
 
-            this.cacheService.set(`task:${id}`, task);
+    /**
+     * Finds open tasks whose deadline is within one of the lead times and
+     * records the reminder as sent, so each lead time fires once per deadline.
+     * A task that enters several lead times at once (e.g. created an hour
+     * before its deadline) only gets the shortest one.
+     */
+    @Logged
+    @Transactional
+    @CacheEvict((reminders: DeadlineReminder[]) => reminders.flatMap(r => changedTaskTags(r.task)))
+    async claimReminders(leadTimesMinutes: number[]): Promise<DeadlineReminder[]> {
+        if (leadTimesMinutes.length === 0) {
+            return [];
+        }
+        const now = this.clock.now();
+        const longest = Math.max(...leadTimesMinutes);
+        const due = await this.taskRepository.findOpenDueBefore(new Date(now.getTime() + longest * 60 * 1000));
+
+        const reminders: DeadlineReminder[] = [];
+        for (const task of due) {
+            const minutesLeft = (new Date(task.deadline!).getTime() - now.getTime()) / (60 * 1000);
+            if (minutesLeft <= 0) {
+                continue;
+            }
+            const reached = leadTimesMinutes.filter(lead => lead >= minutesLeft);
+            const sent = task.remindedLeadTimes ?? [];
+            if (reached.every(lead => sent.includes(lead))) {
+                continue;
+            }
 
-            return task;
-        } catch (error) {
-            Logger.error("Error fetching task", error);
-            throw error;
+            const updated = await this.taskRepository.update(task.id, {
+                remindedLeadTimes: [...new Set([...sent, ...reached])]
+            });
+            if (updated) {
+                reminders.push({ task: updated, leadTimeMinutes: Math.min(...reached) });
+            }
         }
+        return reminders;
     }
 
-    async getByOwner(ownerId: string): Promise<Task[]> {
-        Logger.info("Entering getByOwner");
-        Logger.debug(`Fetching all tasks for owner: ${ownerId}`);
+    /**
+     * Shares the task with a user, or changes the role of an existing share.
+     * A task has at most one assignee: assigning someone else turns the
+     * previous assignee into an editor.
+     */
+    @Logged
+    @Transactional
+    @CacheEvict(changedTaskTags)
+    async share(id: string, dto: ShareTaskDTO, actor: Principal): Promise<Task> {
+        assertValid(ShareTaskSchema, dto);
+
+        const existing = await this.taskRepository.findById(id);
+        if (!existing) {
+            throw new NotFoundError("Task not found");
+        }
+        AccessPolicy.authorize(actor, Action.TASK_SHARE, existing);
+
+        if (dto.userId === existing.ownerId) {
+            throw new ValidationError("Validation failed", [
+                { field: "userId", message: "The owner already has full access to the task" }
+            ]);
+        }
+        const collaborator = await this.userRepository.findById(dto.userId);
+        if (!collaborator) {
+            throw new NotFoundError("User not found");
+        }
 
-        try {
-            Logger.debug("Validating owner exists");
+        const share: TaskShare = { userId: dto.userId, role: dto.role, sharedBy: actor.userId, sharedAt: this.clock.now() };
+        let collaborators = (existing.collaborators ?? []).filter(c => c.userId !== dto.userId);
+        let assigneeId = existing.assigneeId === dto.userId ? undefined : existing.assigneeId;
+        if (dto.role === ShareRole.ASSIGNEE) {
+            collaborators = collaborators.map(c => c.role === ShareRole.ASSIGNEE ? { ...c, role: ShareRole.EDITOR } : c);
+            assigneeId = dto.userId;
+        }
 
-            const owner = await this.userRepository.findById(ownerId);
-            if (!owner) {
-                throw new NotFoundError("Owner not found");
-            }
+        const updated = await this.taskRepository.update(id, { collaborators: [...collaborators, share], assigneeId });
+        if (!updated) {
+            throw new NotFoundError("Task not found");
+        }
 
-            const cacheKey = `tasks:owner:${ownerId}`;
-            const cached = this.cacheService.get(cacheKey);
-            if (cached) {
-                Logger.info("Returning owner tasks from cache");
-                return cached;
-            }
+        Logger.info(`Task ${id} shared with ${dto.userId} as ${dto.role}`);
+        return updated;
+    }
 
-            const tasks = await this.taskRepository.findByOwner(ownerId);
+    /**
+     * Removes a collaborator. Owners and admins can remove anyone; a
+     * collaborator can always remove themselves.
+     */
+    @Logged
+    @Transactional
+    @CacheEvict(changedTaskTags)
+    async unshare(id: string, userId: string, actor: Principal): Promise<Task> {
+        const existing = await this.taskRepository.findById(id);
+        if (!existing) {
+            throw new NotFoundError("Task not found");
+        }
+        if (actor.userId !== userId) {
+            AccessPolicy.authorize(actor, Action.TASK_SHARE, existing);
+        }
 
-            this.cacheService.set(cacheKey, tasks);
-            Logger.info(`Fetched ${tasks.length} tasks for owner: ${ownerId}`);
+        const collaborators = existing.collaborators ?? [];
+        if (!collaborators.some(c => c.userId === userId)) {
+            throw new NotFoundError("Collaborator not found");
+        }
 
-            return tasks;
-        } catch (error) {
-            Logger.error("Error fetching tasks by owner", error);
-            throw error;
+        const updated = await this.taskRepository.update(id, {
+            collaborators: collaborators.filter(c => c.userId !== userId),
+            assigneeId: existing.assigneeId === userId ? undefined : existing.assigneeId
+        });
+        if (!updated) {
+            throw new NotFoundError("Task not found");
         }
+
+        Logger.info(`Removed collaborator ${userId} from task ${id}`);
+        return updated;
     }
 
-    async update(id: string, dto: UpdateTaskDTO): Promise<Task> {
-        Logger.info("Entering update task");
+    @Logged
+    @Transactional
+    @CacheEvict(changedTaskTags)
+    async update(id: string, dto: UpdateTaskDTO, actor: Principal): Promise<Task> {
         Logger.debug(`Updating task with id: ${id}`);
+        Logger.debug("Validating update data");
+        const now = this.clock.now();
+        assertValid(UpdateTaskSchema, dto, { now });
 
-        try {
-            Logger.debug("Validating update data");
-
-            // Title validation
-            if (dto.title !== undefined) {
-                if (dto.title.trim().length < 3) {
-                    throw new ValidationError("Title must be at least 3 characters long");
-                }
-                if (dto.title.length > 100) {
-                    throw new ValidationError("Title must not exceed 100 characters");
-                }
-            }
+        const existing = await this.taskRepository.findById(id);
+        if (!existing) {
+            throw new NotFoundError("Task not found");
+        }
+        AccessPolicy.authorize(actor, Action.TASK_UPDATE, existing);
 
-            // Description validation
-            if (dto.description !== undefined && dto.description.length > 500) {
-                throw new ValidationError("Description must not exceed 500 characters");
+        const movesProject = dto.projectId !== undefined && dto.projectId !== existing.projectId;
+        if (movesProject) {
+            await this.assertCanAddToProject(dto.projectId!, actor);
+        }
+
+        // Check for duplicate titles where the task will end up (if title or project is being updated)
+        if (dto.title !== undefined || movesProject) {
+            await this.assertTitleAvailable(
+                dto.title ?? existing.title,
+                existing.ownerId,
+                dto.projectId ?? existing.projectId,
+                id // Exclude current task
+            );
+        }
+
+        // Prepare update data with trimmed strings
+        const updateData: Partial<Task> = {};
+        if (dto.title !== undefined) updateData.title = dto.title.trim();
+        if (dto.description !== undefined) updateData.description = dto.description.trim();
+        if (dto.status && dto.status !== existing.status) {
+            TaskWorkflow.assertTransition(existing.status, dto.status);
+            if (dto.status === TaskStatus.IN_PROGRESS || dto.status === TaskStatus.DONE) {
+                await this.assertUnblocked(existing);
             }
+            updateData.status = dto.status;
+            updateData.statusHistory = [
+                ...existing.statusHistory,
+                TaskWorkflow.change(existing.status, dto.status, actor.userId, now)
+            ];
+        }
+        if (dto.deadline) {
+            // A new deadline starts over with its own reminders
+            updateData.deadline = new Date(dto.deadline);
+            updateData.overdueAt = undefined;
+            updateData.remindedLeadTimes = [];
+        }
+        if (dto.priority) updateData.priority = dto.priority;
+        if (movesProject) updateData.projectId = dto.projectId;
 
-            // Deadline validation
-            if (dto.deadline) {
-                const deadlineDate = new Date(dto.deadline);
-                const now = new Date();
+        let updated = await this.taskRepository.update(id, updateData);
+        if (!updated) {
+            throw new NotFoundError("Task not found");
+        }
+        if (updateData.status === TaskStatus.DONE) {
+            updated = await this.scheduleNextOccurrence(updated, actor);
+        }
+        if (updateData.status) {
+            await this.rollUpProgress([updated.parentId]);
+        }
 
-                if (isNaN(deadlineDate.getTime())) {
-                    throw new ValidationError("Invalid deadline date format");
-                }
+        Logger.info(`Task updated successfully: ${id}`);
 
-                if (deadlineDate < now) {
-                    throw new ValidationError("Deadline cannot be in the past");
-                }
+        return updated;
+    }
 
-                const fiveYearsFromNow = new Date();
-                fiveYearsFromNow.setFullYear(fiveYearsFromNow.getFullYear() + 5);
-                if (deadlineDate > fiveYearsFromNow) {
-                    throw new ValidationError("Deadline cannot be more than 5 years in the future");
-                }
-            }
+    @Logged
+    @Transactional
+    @CacheEvict(changedTaskTags)
+    async reopen(id: string, actor: Principal): Promise<Task> {
+        Logger.debug(`Reopening task with id: ${id}`);
+
+        const existing = await this.taskRepository.findById(id);
+        if (!existing) {
+            throw new NotFoundError("Task not found");
+        }
+        AccessPolicy.authorize(actor, Action.TASK_UPDATE, existing);
+
+        const status = TaskWorkflow.reopenTarget(existing.status);
+        const updated = await this.taskRepository.update(id, {
+            status,
+            statusHistory: [...existing.statusHistory, TaskWorkflow.change(existing.status, status, actor.userId, this.clock.now())]
+        });
+        if (!updated) {
+            throw new NotFoundError("Task not found");
+        }
+        await this.rollUpProgress([updated.parentId]);
+
+        Logger.info(`Task reopened: ${id}`);
+
+        return updated;
+    }
+
+    @Logged
+    async getHistory(id: string, actor: Principal): Promise<TaskStatusChange[]> {
+        const task = await this.getById(id, actor);
+        return task.statusHistory;
+    }
+
+    @Logged
+    async getSubtasks(id: string, actor: Principal): Promise<Task[]> {
+        await this.getById(id, actor);
+        return this.taskRepository.findByParent(id);
+    }
+
+    /**
+     * Makes the task wait for another one. Dependencies may cross owners and
+     * projects, but must never form a cycle.
+     */
+    @Logged
+    @Transactional
+    @CacheEvict(changedTaskTags)
+    async addDependency(id: string, blockerId: string, actor: Principal): Promise<Task> {
+        assertValid(TaskDependencySchema, { taskId: blockerId });
+
+        const existing = await this.taskRepository.findById(id);
+        if (!existing) {
+            throw new NotFoundError("Task not found");
+        }
+        AccessPolicy.authorize(actor, Action.TASK_UPDATE, existing);
+
+        if (blockerId === id) {
+            throw new ValidationError("Validation failed", [
+                { field: "taskId", message: "A task cannot depend on itself" }
+            ]);
+        }
+        const blocker = await this.taskRepository.findById(blockerId);
+        if (!blocker) {
+            throw new NotFoundError("Blocking task not found");
+        }
+        AccessPolicy.authorize(actor, Action.TASK_READ, blocker);
+
+        const blockedBy = existing.blockedBy ?? [];
+        if (blockedBy.includes(blockerId)) {
+            return existing;
+        }
+        const cycle = await this.findDependencyPath(blocker, id);
+        if (cycle) {
+            const path = [existing, ...cycle].map(t => `"${t.title}"`).join(" -> ");
+            throw new ValidationError("Validation failed", [
+                { field: "taskId", message: `Adding this dependency would create a cycle: ${path}` }
+            ]);
+        }
+
+        const updated = await this.taskRepository.update(id, { blockedBy: [...blockedBy, blockerId] });
+        if (!updated) {
+            throw new NotFoundError("Task not found");
+        }
+
+        Logger.info(`Task ${id} is now blocked by ${blockerId}`);
+        return updated;
+    }
+
+    @Logged
+    @Transactional
+    @CacheEvict(changedTaskTags)
+    async removeDependency(id: string, blockerId: string, actor: Principal): Promise<Task> {
+        const existing = await this.taskRepository.findById(id);
+        if (!existing) {
+            throw new NotFoundError("Task not found");
+        }
+        AccessPolicy.authorize(actor, Action.TASK_UPDATE, existing);
+
+        const blockedBy = existing.blockedBy ?? [];
+        if (!blockedBy.includes(blockerId)) {
+            throw new NotFoundError("Dependency not found");
+        }
+
+        const updated = await this.taskRepository.update(id, { blockedBy: blockedBy.filter(b => b !== blockerId) });
+        if (!updated) {
+            throw new NotFoundError("Task not found");
+        }
+
+        Logger.info(`Task ${id} is no longer blocked by ${blockerId}`);
+        return updated;
+    }
 
-            // Priority validation
-            if (dto.priority && !['LOW', 'MEDIUM', 'HIGH'].includes(dto.priority)) {
-                throw new ValidationError("Priority must be LOW, MEDIUM, or HIGH");
+    /**
+     * Moves all tasks of a project to another project, or out of any project.
+     * Not transactional on its own: callers run it inside their transaction.
+     */
+    @Logged
+    @CacheEvict((tasks: Task[]) => tasks.flatMap(changedTaskTags))
+    async moveProjectTasks(projectId: string, targetProjectId?: string): Promise<Task[]> {
+        return this.taskRepository.moveProjectTasks(projectId, targetProjectId);
+    }
+
+    /**
+     * Deletes all tasks of a project. Not transactional on its own: callers
+     * run it inside their transaction.
+     */
+    @Logged
+    @CacheEvict((tasks: Task[]) => tasks.flatMap(changedTaskTags))
+    async deleteProjectTasks(projectId: string): Promise<Task[]> {
+        const deleted = await this.taskRepository.deleteByProject(projectId);
+        await this.unlinkDeleted(deleted);
+        return deleted;
+    }
+
+    /**
+     * Drops cached listings that contain the project's tasks, e.g. after it was
+     * archived or restored and they should disappear or come back.
+     */
+    async evictProjectTasks(projectId: string): Promise<void> {
+        const tasks = await this.taskRepository.findByProject(projectId);
+        await this.cacheService.invalidateTags(tasks.flatMap(changedTaskTags));
+    }
+
+    /**
+     * Creates the next occurrence of a completed recurring task, once per
+     * task: completing it again after a reopen does not create another. The
+     * series ends when its rule runs out or the next deadline fails the checks
+     * a task created by hand would get.
+     */
+    private async scheduleNextOccurrence(task: Task, actor: Principal): Promise<Task> {
+        const recurrence = task.recurrence;
+        if (!recurrence || recurrence.nextTaskId || !task.deadline) {
+            return task;
+        }
+
+        const now = this.clock.now();
+        const next = Recurrence.following(recurrence, new Date(task.deadline), now);
+        if (!next) {
+            Logger.info(`Recurring series ${recurrence.seriesId} has ended`);
+            return task;
+        }
+        const errors = validate(CreateTaskSchema, { title: task.title, deadline: next.deadline }, { now });
+        if (errors.length > 0) {
+            Logger.warn(`Ending recurring series ${recurrence.seriesId}: ${errors.map(e => e.message).join("; ")}`);
+            return task;
+        }
+
+        const occurrence: Task = {
+            id: crypto.randomUUID(),
+            title: task.title,
+            description: task.description,
+            status: TaskStatus.TODO,
+            deadline: next.deadline,
+            priority: task.priority,
+            ownerId: task.ownerId,
+            projectId: task.projectId,
+            assigneeId: task.assigneeId,
+            collaborators: task.collaborators ?? [],
+            parentId: task.parentId,
+            blockedBy: [],
+            recurrence: { rule: recurrence.rule, seriesId: recurrence.seriesId, occurrence: next.occurrence },
+            createdAt: now,
+            statusHistory: [TaskWorkflow.change(null, TaskStatus.TODO, actor.userId, now)]
+        };
+        await this.taskRepository.save(occurrence);
+        Logger.info(`Created occurrence ${next.occurrence} of recurring series ${recurrence.seriesId}: ${occurrence.id}`);
+
+        const updated = await this.taskRepository.update(task.id, { recurrence: { ...recurrence, nextTaskId: occurrence.id } });
+        return updated ?? task;
+    }
+
+    private async assertUnblocked(task: Task): Promise<void> {
+        const open: Task[] = [];
+        for (const blockerId of task.blockedBy ?? []) {
+            const blocker = await this.taskRepository.findById(blockerId);
+            if (blocker && !TaskWorkflow.isClosed(blocker.status)) {
+                open.push(blocker);
             }
+        }
+
+        if (open.length > 0) {
+            throw new ValidationError(
+                "Task is blocked by unfinished tasks",
+                open.map(b => ({ field: "status", message: `Blocked by "${b.title}" (${b.id}), which is ${b.status}` }))
+            );
+        }
+    }
 
-            // Status validation
-            if (dto.status && !['TODO', 'IN_PROGRESS', 'DONE', 'CANCELLED'].includes(dto.status)) {
-                throw new ValidationError("Status must be TODO, IN_PROGRESS, DONE, or CANCELLED");
+    // Depth-first search along "blocked by" edges; returns the chain from `from` to `targetId`
+    private async findDependencyPath(from: Task, targetId: string, visited = new Set<string>()): Promise<Task[] | null> {
+        if (from.id === targetId) {
+            return [from];
+        }
+        visited.add(from.id);
+
+        for (const nextId of from.blockedBy ?? []) {
+            if (visited.has(nextId)) {
+                continue;
+            }
+            const next = await this.taskRepository.findById(nextId);
+            const path = next && await this.findDependencyPath(next, targetId, visited);
+            if (path) {
+                return [from, ...path];
             }
+        }
+        return null;
+    }
 
-            // Simulate transaction handling
-            this.transactionManager.begin();
-
-            try {
-                const existing = await this.taskRepository.findById(id);
-                if (!existing) {
-                    throw new NotFoundError("Task not found");
-                }
-
-                // Check for duplicate task titles for the same user (if title is being updated)
-                if (dto.title !== undefined) {
-                    const similarTasks = await this.taskRepository.findByOwnerAndTitlePattern(
-                        existing.ownerId,
-                        dto.title.trim(),
-                        id // Exclude current task
-                    );
-
-                    if (similarTasks.length > 0) {
-                        Logger.debug(`Found ${similarTasks.length} similar task(s) for user`);
-                        throw new ValidationError("A task with similar title already exists for this user");
-                    }
-                }
-
-                // Prepare update data with trimmed strings
-                const updateData: UpdateTaskDTO = {};
-                if (dto.title !== undefined) updateData.title = dto.title.trim();
-                if (dto.description !== undefined) updateData.description = dto.description.trim();
-                if (dto.status) updateData.status = dto.status;
-                if (dto.deadline) updateData.deadline = new Date(dto.deadline);
-                if (dto.priority) updateData.priority = dto.priority;
-
-                const updated = await this.taskRepository.update(id, updateData);
-                if (!updated) {
-                    throw new NotFoundError("Task not found");
-                }
-
-                this.cacheService.invalidate(`task:${id}`);
-
-                this.transactionManager.commit();
-                Logger.info(`Task updated successfully: ${id}`);
-
-                return updated;
-            } catch (error) {
-                this.transactionManager.rollback();
-                throw error;
+    // Recomputes the progress of the given parents from their direct subtasks
+    private async rollUpProgress(parentIds: (string | undefined)[]): Promise<void> {
+        const changed: Task[] = [];
+        for (const parentId of new Set(parentIds)) {
+            if (!parentId) {
+                continue;
             }
-        } catch (error) {
-            Logger.error("Error updating task", error);
-            throw error;
+            const counted = (await this.taskRepository.findByParent(parentId))
+                .filter(t => t.status !== TaskStatus.CANCELLED);
+            const done = counted.filter(t => t.status === TaskStatus.DONE).length;
+            const progress: SubtaskProgress | undefined = counted.length > 0
+                ? { total: counted.length, done, percent: Math.round(done / counted.length * 100) }
+                : undefined;
+
+            const updated = await this.taskRepository.update(parentId, { progress });
+            if (updated) {
+                changed.push(updated);
+            }
+        }
+        await this.cacheService.invalidateTags(changed.flatMap(changedTaskTags));
+    }
+
+    // Keeps the remaining tasks consistent once `deleted` are gone
+    private async unlinkDeleted(deleted: Task[]): Promise<void> {
+        if (deleted.length === 0) {
+            return;
+        }
+        const ids = deleted.map(t => t.id);
+        const unlinked = await this.taskRepository.unlinkDeleted(ids);
+        await this.cacheService.invalidateTags(unlinked.flatMap(changedTaskTags));
+        await this.rollUpProgress(deleted.map(t => t.parentId).filter(id => id && !ids.includes(id)));
+    }
+
+    private async assertCanAddToProject(projectId: string, principal: Principal): Promise<Project> {
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new NotFoundError("Project not found");
+        }
+        AccessPolicy.authorize(principal, Action.PROJECT_ADD_TASK, project);
+        if (project.archived) {
+            throw new ConflictError("Project is archived");
+        }
+        return project;
+    }
+
+    // Titles must be unique within a project, or among the owner's tasks outside any project
+    private async assertTitleAvailable(title: string, ownerId: string, projectId?: string, excludeId?: string): Promise<void> {
+        const similarTasks = projectId
+            ? await this.taskRepository.findByProjectAndTitlePattern(projectId, title.trim(), excludeId)
+            : await this.taskRepository.findByOwnerAndTitlePattern(ownerId, title.trim(), excludeId);
+
+        if (similarTasks.length > 0) {
+            Logger.debug(`Found ${similarTasks.length} similar task(s)`);
+            throw new ConflictError(projectId
+                ? "A task with similar title already exists in this project"
+                : "A task with similar title already exists for this user");
         }
     }
 }
@@ -0,0 +1,29 @@
+import { Logger } from "../utils/Logger";
+
+/**
+ * Ids (session families) whose access tokens must be rejected before they
+ * expire on their own. Entries are dropped once nothing they cover can still
+ * be valid.
+ */
+export class TokenRevocationList {
+    private revoked: Map<string, number> = new Map();
+
+    revoke(id: string, until: Date): void {
+        Logger.info(`Revoking token id: ${id}`);
+        this.revoked.set(id, until.getTime());
+    }
+
+    isRevoked(id: string): boolean {
+        const until = this.revoked.get(id);
+        if (until === undefined) {
+            return false;
+        }
+
+        if (Date.now() > until) {
+            this.revoked.delete(id);
+            return false;
+        }
+
+        return true;
+    }
+}
@@ -0,0 +1,113 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import bcrypt from "bcrypt";
+import { UserFixture, buildTask, buildUser, createUserFixture } from "../testing/fixtures";
+import { Role } from "../types/DTOs";
+import { RateLimitError } from "../errors/BaseError";
+
+const fixtures: UserFixture[] = [];
+function setUp(): UserFixture {
+    const fixture = createUserFixture();
+    fixtures.push(fixture);
+    return fixture;
+}
+
+after(() => Promise.all(fixtures.map(fixture => fixture.dispose())));
+
+describe("UserService.bootstrapAdmin", () => {
+    it("creates the configured admin when the account does not exist", async () => {
+        const { userService, userRepository } = setUp();
+
+        await userService.bootstrapAdmin("admin@example.com", "Admin-password-1");
+
+        const admin = await userRepository.findByEmail("admin@example.com");
+        assert.equal(admin?.role, Role.ADMIN);
+        assert.equal(admin?.emailVerified, true);
+    });
+
+    it("promotes an existing verified account whose password matches", async () => {
+        const { userService, userRepository } = setUp();
+        const user = await userRepository.save(buildUser({
+            email: "admin@example.com",
+            password: await bcrypt.hash("Admin-password-1", 4)
+        }));
+
+        await userService.bootstrapAdmin("admin@example.com", "Admin-password-1");
+
+        assert.equal((await userRepository.findById(user.id))?.role, Role.ADMIN);
+    });
+
+    it("refuses to promote an account with a different password", async () => {
+        const { userService, userRepository } = setUp();
+        const user = await userRepository.save(buildUser({
+            email: "admin@example.com",
+            password: await bcrypt.hash("Someone-elses-1", 4)
+        }));
+
+        await assert.rejects(userService.bootstrapAdmin("admin@example.com", "Admin-password-1"), /Refusing to promote/);
+        assert.equal((await userRepository.findById(user.id))?.role, Role.USER);
+    });
+
+    it("refuses to promote an unverified account", async () => {
+        const { userService, userRepository } = setUp();
+        const user = await userRepository.save(buildUser({
+            email: "admin@example.com",
+            password: await bcrypt.hash("Admin-password-1", 4),
+            emailVerified: false
+        }));
+
+        await assert.rejects(userService.bootstrapAdmin("admin@example.com", "Admin-password-1"), /Refusing to promote/);
+        assert.equal((await userRepository.findById(user.id))?.role, Role.USER);
+    });
+
+    it("does nothing once an admin exists", async () => {
+        const { userService, userRepository } = setUp();
+        await userRepository.save(buildUser({ role: Role.ADMIN }));
+
+        await userService.bootstrapAdmin("admin@example.com", "Admin-password-1");
+
+        assert.equal(await userRepository.findByEmail("admin@example.com"), undefined);
+    });
+});
+
+describe("UserService.deleteAccount", () => {
+    it("removes the account, its tasks and its projects", async () => {
+        const { userService, userRepository, taskRepository, projectRepository, projectService } = setUp();
+        const user = await userRepository.save(buildUser());
+        const task = await taskRepository.save(buildTask(user.id));
+        const project = await projectService.create({ name: "Garden" }, { userId: user.id, role: Role.USER });
+
+        await userService.deleteAccount(user.id);
+
+        assert.equal(await userRepository.findById(user.id), undefined);
+        assert.equal(await taskRepository.findById(task.id), undefined);
+        assert.equal(await projectRepository.findById(project.id), undefined);
+    });
+
+    it("leaves everything in place when a later step fails", async () => {
+        const { userService, userRepository, taskRepository, projectRepository, projectService } = setUp();
+        const user = await userRepository.save(buildUser());
+        const task = await taskRepository.save(buildTask(user.id));
+        const project = await projectService.create({ name: "Garden" }, { userId: user.id, role: Role.USER });
+        userRepository.delete = async () => { throw new Error("delete failed"); };
+
+        await assert.rejects(userService.deleteAccount(user.id), /delete failed/);
+
+        assert.deepEqual(await taskRepository.findById(task.id), task);
+        assert.deepEqual(await projectRepository.findById(project.id), project);
+    });
+});
+
+describe("UserService.resendVerificationEmail", () => {
+    it("sends at most one verification email per account within the cooldown", async () => {
+        const { userService, userRepository, notifier } = setUp();
+        const user = await userRepository.save(buildUser({ emailVerified: false }));
+        const other = await userRepository.save(buildUser({ emailVerified: false }));
+
+        await userService.resendVerificationEmail(user.id);
+        await assert.rejects(userService.resendVerificationEmail(user.id), RateLimitError);
+        await userService.resendVerificationEmail(other.id);
+
+        assert.deepEqual(notifier.sent.map(n => n.to), [user.email, other.email]);
+    });
+});
@@ -1,76 +1,381 @@
-import { UserRepository } from "../repositories/UserRepository";
+import { IUserRepository } from "../repositories/IUserRepository";
 import bcrypt from "bcrypt";
 import { AuthService } from "./AuthService";
-import { CreateUserDTO, LoginDTO, Role, User } from "../types/DTOs";
+import { TaskService } from "./TaskService";
+import { ProjectService } from "./ProjectService";
+import { Notifier } from "./notifications/Notifier";
+import { AuditLog } from "./AuditLog";
+import { LoginThrottle } from "./LoginThrottle";
+import {
+    AuthTokens, CreateUserDTO, LoginDTO, PaginatedResult, ResetPasswordDTO, Role, UpdateProfileDTO, User, UserQuery
+} from "../types/DTOs";
 import { Logger } from "../utils/Logger";
-import { NotFoundError, UnauthorizedError, ValidationError } from "../errors/BaseError";
+import { EmailAddress } from "../utils/EmailAddress";
+import { AccessPolicy, Principal } from "../utils/AccessPolicy";
+import { ConflictError, ForbiddenError, NotFoundError, RateLimitError, UnauthorizedError, ValidationError } from "../errors/BaseError";
+import { TransactionManager } from "../utils/TransactionManager";
+import { Instrumented, Logged, Transactional } from "../decorators";
+import { assertValid } from "../validation/Schema";
+import { CreateUserSchema, ResetPasswordSchema, UpdateProfileSchema } from "../validation/schemas";
 
+// Compared against when the email is unknown, so both failures take as long
+const UNKNOWN_USER_HASH = bcrypt.hashSync(crypto.randomUUID(), 10);
+
+// Minimum time between verification emails to the same account
+const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+
+@Instrumented
 export class UserService {
+    // When each account was last sent a verification email, within the cooldown
+    private verificationSentAt: Map<string, number> = new Map();
+
     constructor(
-        private userRepository: UserRepository,
-        private authService: AuthService
+        private userRepository: IUserRepository,
+        private authService: AuthService,
+        private taskService: TaskService,
+        private projectService: ProjectService,
+        private notifier: Notifier,
+        private auditLog: AuditLog,
+        private loginThrottle: LoginThrottle,
+        private transactionManager: TransactionManager
     ) { }
 
+    @Logged
     async createUser(dto: CreateUserDTO): Promise<User> {
-        Logger.info("Entering createUser");
-        Logger.debug(`Creating user with email: ${dto.email}`);
+        Logger.debug("Creating user", { email: dto.email });
 
-        try {
-            if (!dto.email || !dto.password) {
-                throw new ValidationError("Email and password are required");
-            }
+        assertValid(CreateUserSchema, dto);
 
-            const hashed = await bcrypt.hash(dto.password, 10);
+        const hashed = await bcrypt.hash(dto.password, 10);
 
-            const user: User = {
-                id: crypto.randomUUID(),
-                email: dto.email,
-                password: hashed,
-                role: dto.role || Role.USER
-            };
+        const user: User = {
+            id: crypto.randomUUID(),
+            email: EmailAddress.normalize(dto.email),
+            password: hashed,
+            role: Role.USER,
+            disabled: false,
+            emailVerified: false
+        };
 
-            return await this.userRepository.save(user);
-        } catch (error) {
-            Logger.error("Error creating user", error);
-            throw error;
-        }
+        const saved = await this.userRepository.save(user);
+        await this.sendVerificationEmail(saved);
+        return saved;
     }
 
-    async authenticate(dto: LoginDTO): Promise<string> {
-        Logger.info("Entering authenticate");
-        Logger.debug(`Authenticating user: ${dto.email}`);
+    /**
+     * Unknown emails and wrong passwords fail identically, and repeated
+     * failures lock out the account and the client IP for a while.
+     */
+    @Logged
+    async authenticate(dto: LoginDTO, clientIp: string): Promise<AuthTokens> {
+        Logger.debug("Authenticating user", { email: dto.email });
 
-        try {
-            const user = await this.userRepository.findByEmail(dto.email);
-            if (!user) {
-                throw new NotFoundError("User not found");
-            }
+        const account = EmailAddress.normalize(dto.email);
+        this.loginThrottle.assertAllowed(account, clientIp);
 
-            const valid = await bcrypt.compare(dto.password, user.password);
-            if (!valid) {
-                throw new UnauthorizedError("Invalid credentials");
-            }
+        const user = await this.userRepository.findByEmail(account);
+        const valid = await bcrypt.compare(dto.password, user?.password ?? UNKNOWN_USER_HASH);
+        if (!user || !valid) {
+            this.loginThrottle.recordFailure(account, clientIp);
+            throw new UnauthorizedError("Invalid credentials");
+        }
+        this.loginThrottle.recordSuccess(account);
 
-            return this.authService.generateToken(user.id, user.role);
-        } catch (error) {
-            Logger.error("Authentication error", error);
-            throw error;
+        if (user.disabled) {
+            throw new ForbiddenError("Account is disabled");
         }
+
+        return this.authService.issueTokens(user.id, user.role);
     }
 
+    @Logged
+    async refreshSession(refreshToken: string): Promise<AuthTokens> {
+        const { userId, sessionId } = await this.authService.rotateRefreshToken(refreshToken);
+
+        // Re-read the user so role changes apply from the next access token on
+        const user = await this.userRepository.findById(userId);
+        if (!user || user.disabled) {
+            await this.authService.revokeSession(sessionId);
+            throw new UnauthorizedError("Invalid refresh token");
+        }
+
+        return this.authService.issueTokens(user.id, user.role, sessionId);
+    }
+
+    @Logged
+    async logout(sessionId: string): Promise<void> {
+        Logger.debug(`Revoking session: ${sessionId}`);
+        await this.authService.revokeSession(sessionId);
+    }
+
+    @Logged
     async getById(id: string): Promise<User> {
-        Logger.info("Entering getById");
         Logger.debug(`Fetching user by id: ${id}`);
 
-        try {
-            const user = await this.userRepository.findById(id);
-            if (!user) {
-                throw new NotFoundError("User not found");
+        const user = await this.userRepository.findById(id);
+        if (!user) {
+            throw new NotFoundError("User not found");
+        }
+        return user;
+    }
+
+    /**
+     * Changes the user's own email and/or password. A password change must be
+     * confirmed with the current one and signs out every other session.
+     */
+    @Logged
+    async updateProfile(userId: string, sessionId: string, dto: UpdateProfileDTO): Promise<User> {
+        assertValid(UpdateProfileSchema, dto);
+
+        const user = await this.getById(userId);
+        const updates: Partial<User> = {};
+
+        const email = dto.email !== undefined ? EmailAddress.normalize(dto.email) : undefined;
+        if (email !== undefined && email !== user.email) {
+            // The new address has to be verified again
+            updates.email = email;
+            updates.emailVerified = false;
+        }
+
+        if (dto.password !== undefined) {
+            if (!dto.currentPassword) {
+                throw new ValidationError("Validation failed", [
+                    { field: "currentPassword", message: "Current password is required to change the password" }
+                ]);
             }
+            const valid = await bcrypt.compare(dto.currentPassword, user.password);
+            if (!valid) {
+                throw new ForbiddenError("Current password is incorrect");
+            }
+            updates.password = await bcrypt.hash(dto.password, 10);
+        }
+
+        const updated = (await this.userRepository.update(userId, updates))!;
+        if (updates.password) {
+            await this.authService.revokeUserSessions(userId, sessionId);
+        }
+        if (updates.email) {
+            await this.sendVerificationEmail(updated);
+        }
+        return updated;
+    }
+
+    @Logged
+    async verifyEmail(token: string): Promise<User> {
+        const claims = this.authService.verifyEmailVerificationToken(token);
+
+        const user = await this.userRepository.findById(claims.userId);
+        if (!user || user.email !== claims.email) {
+            throw new UnauthorizedError("Invalid or expired verification token");
+        }
+        if (user.emailVerified) {
             return user;
-        } catch (error) {
-            Logger.error("Error fetching user", error);
-            throw error;
         }
+
+        Logger.info(`Email verified for user: ${user.id}`);
+        return (await this.userRepository.update(user.id, { emailVerified: true }))!;
+    }
+
+    /** Limited to one email per account per cooldown, so it cannot be used to flood the address. */
+    @Logged
+    async resendVerificationEmail(userId: string): Promise<void> {
+        const user = await this.getById(userId);
+        if (user.emailVerified) {
+            throw new ConflictError("Email is already verified");
+        }
+
+        const sentAt = this.verificationSentAt.get(user.id);
+        const waitMs = sentAt === undefined ? 0 : sentAt + VERIFICATION_RESEND_COOLDOWN_MS - Date.now();
+        if (waitMs > 0) {
+            throw new RateLimitError("A verification email was sent recently", waitMs / 1000);
+        }
+        await this.sendVerificationEmail(user);
+    }
+
+    /**
+     * Removes the account with its tasks and projects in one transaction, so
+     * a failure part way leaves the account as it was.
+     */
+    @Logged
+    @Transactional
+    async deleteAccount(userId: string): Promise<void> {
+        Logger.debug(`Deleting account: ${userId}`);
+
+        await this.getById(userId);
+        const deletedTasks = await this.taskService.deleteByOwner(userId);
+        await this.projectService.removeUser(userId);
+        await this.userRepository.delete(userId);
+        await this.authService.revokeUserSessions(userId);
+
+        Logger.info(`Deleted account ${userId} and ${deletedTasks} task(s)`);
+    }
+
+    @Logged
+    async listUsers(query: UserQuery): Promise<PaginatedResult<User>> {
+        return this.userRepository.query(query);
+    }
+
+    /**
+     * Disabling an account also revokes its sessions, so tokens already issued
+     * stop working rather than lasting until they expire.
+     */
+    @Logged
+    async setDisabled(id: string, disabled: boolean, actor: Principal): Promise<User> {
+        if (id === actor.userId) {
+            throw new ForbiddenError("You cannot disable or enable your own account");
+        }
+
+        await this.getById(id);
+        const updated = (await this.userRepository.update(id, { disabled }))!;
+        if (disabled) {
+            await this.authService.revokeUserSessions(id);
+        }
+
+        Logger.info(`User ${id} ${disabled ? "disabled" : "enabled"} by ${actor.userId}`);
+        return updated;
+    }
+
+    /**
+     * The only way a role changes after registration. Every change is written
+     * to the audit log.
+     */
+    @Logged
+    async changeRole(id: string, role: Role, actor: Principal): Promise<User> {
+        if (!AccessPolicy.isRole(role)) {
+            throw new ValidationError("Validation failed", [{ field: "role", message: "Role must be USER or ADMIN" }]);
+        }
+        if (id === actor.userId) {
+            throw new ForbiddenError("You cannot change your own role");
+        }
+
+        const user = await this.getById(id);
+        if (user.role === role) {
+            return user;
+        }
+
+        const updated = (await this.userRepository.update(id, { role }))!;
+        // Access tokens carry the role, so sessions issued under the old one must go
+        await this.authService.revokeUserSessions(id);
+        await this.auditLog.record({
+            action: "user.role_changed",
+            actorId: actor.userId,
+            targetId: id,
+            details: { from: user.role, to: role }
+        });
+
+        return updated;
+    }
+
+    /**
+     * Makes sure there is an admin to assign roles at all. Once any admin
+     * exists this does nothing; otherwise the configured account is promoted,
+     * or created if it does not exist yet. An existing account is only
+     * promoted if it is verified and the configured password is its own, so
+     * registering the configured email first does not make someone an admin.
+     */
+    async bootstrapAdmin(email: string, password: string): Promise<void> {
+        const admins = await this.userRepository.query({ role: Role.ADMIN, limit: 1, offset: 0 });
+        if (admins.total > 0) {
+            return;
+        }
+
+        const existing = await this.userRepository.findByEmail(email);
+        if (existing) {
+            if (!existing.emailVerified || !(await bcrypt.compare(password, existing.password))) {
+                throw new Error(
+                    "Refusing to promote the existing account for BOOTSTRAP_ADMIN_EMAIL: " +
+                    "it must be verified and BOOTSTRAP_ADMIN_PASSWORD must be its password"
+                );
+            }
+            await this.userRepository.update(existing.id, { role: Role.ADMIN });
+            await this.auditLog.record({
+                action: "user.role_changed",
+                actorId: "system",
+                targetId: existing.id,
+                details: { from: existing.role, to: Role.ADMIN, reason: "bootstrap" }
+            });
+            Logger.info(`Promoted ${existing.id} to the first admin`);
+            return;
+        }
+
+        assertValid(CreateUserSchema, { email, password });
+        const admin: User = {
+            id: crypto.randomUUID(),
+            email: EmailAddress.normalize(email),
+            password: await bcrypt.hash(password, 10),
+            role: Role.ADMIN,
+            disabled: false,
+            // Configured by the operator, so there is nobody to send a verification to
+            emailVerified: true
+        };
+        await this.userRepository.save(admin);
+        await this.auditLog.record({
+            action: "user.role_changed",
+            actorId: "system",
+            targetId: admin.id,
+            details: { from: null, to: Role.ADMIN, reason: "bootstrap" }
+        });
+        Logger.info(`Created the first admin: ${admin.id}`);
+    }
+
+    /**
+     * Sends a reset token if the email belongs to an active account. Callers
+     * get the same result either way, so the endpoint cannot be used to find
+     * out which addresses are registered.
+     */
+    @Logged
+    async requestPasswordReset(email: string): Promise<void> {
+        const user = await this.userRepository.findByEmail(email);
+        if (!user || user.disabled) {
+            Logger.info("Password reset requested for an unknown or disabled account");
+            return;
+        }
+
+        const token = await this.authService.issuePasswordResetToken(user.id);
+        // Not awaited: a slow delivery would otherwise reveal that the account exists
+        this.notifier.send({
+            to: user.email,
+            subject: "Reset your password",
+            body: `Choose a new password by sending the token below to POST /password/reset:\n\n${token}`
+        }).catch(error => Logger.error("Failed to send password reset notification", error));
+    }
+
+    /**
+     * Redeems a reset token: sets the new password and signs out every session,
+     * since whoever held the old password may still be logged in.
+     */
+    @Logged
+    async resetPassword(dto: ResetPasswordDTO): Promise<void> {
+        assertValid(ResetPasswordSchema, dto);
+
+        const userId = await this.authService.consumePasswordResetToken(dto.token);
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+            throw new UnauthorizedError("Invalid or expired reset token");
+        }
+
+        const hashed = await bcrypt.hash(dto.password, 10);
+        // The token arrived at this address, which proves the user controls it
+        await this.userRepository.update(userId, { password: hashed, emailVerified: true });
+        await this.authService.revokeUserSessions(userId);
+
+        Logger.info(`Password reset for user: ${userId}`);
+    }
+
+    private async sendVerificationEmail(user: User): Promise<void> {
+        const now = Date.now();
+        for (const [id, sentAt] of this.verificationSentAt) {
+            if (sentAt + VERIFICATION_RESEND_COOLDOWN_MS <= now) {
+                this.verificationSentAt.delete(id);
+            }
+        }
+        this.verificationSentAt.set(user.id, now);
+
+        const token = this.authService.generateEmailVerificationToken(user.id, user.email);
+        await this.notifier.send({
+            to: user.email,
+            subject: "Verify your email address",
+            body: `Confirm this address by sending the token below to POST /email/verify:\n\n${token}`
+        });
     }
 }
@@ -0,0 +1,36 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import "../../testing/fixtures";
+import { RespStandIn } from "../../testing/RespStandIn";
+import { InvalidationMessage, RedisInvalidationBus } from "./CacheInvalidationBus";
+
+describe("RedisInvalidationBus", () => {
+    const server = new RespStandIn();
+    let url: string;
+
+    before(async () => {
+        url = await server.start();
+    });
+
+    after(() => server.stop());
+
+    it("delivers published invalidations to every subscriber on the channel", async () => {
+        const first = new RedisInvalidationBus(url, "invalidations");
+        const second = new RedisInvalidationBus(url, "invalidations");
+        const elsewhere = new RedisInvalidationBus(url, "other-app");
+        const received: Record<string, InvalidationMessage[]> = { first: [], second: [], elsewhere: [] };
+        try {
+            await first.subscribe(message => received.first.push(message));
+            await second.subscribe(message => received.second.push(message));
+            await elsewhere.subscribe(message => received.elsewhere.push(message));
+
+            const message: InvalidationMessage = { origin: "instance-1", tags: ["owner:1"] };
+            await first.publish(message);
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            assert.deepEqual(received, { first: [message], second: [message], elsewhere: [] });
+        } finally {
+            await Promise.all([first.dispose(), second.dispose(), elsewhere.dispose()]);
+        }
+    });
+});
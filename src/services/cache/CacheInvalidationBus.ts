@@ -0,0 +1,56 @@
+import { Logger } from "../../utils/Logger";
+import { RespClient } from "./RespClient";
+
+export interface InvalidationMessage {
+    origin: string;
+    keys?: string[];
+    tags?: string[];
+    clear?: boolean;
+}
+
+/**
+ * Carries invalidations between instances so each can drop what it holds
+ * locally. Messages published by an instance are delivered back to it too;
+ * receivers skip their own by comparing `origin`.
+ */
+export interface CacheInvalidationBus {
+    publish(message: InvalidationMessage): Promise<void>;
+    subscribe(handler: (message: InvalidationMessage) => void): Promise<void>;
+    dispose(): Promise<void>;
+}
+
+/**
+ * Invalidation bus over Redis pub/sub. Subscribing puts a connection into a
+ * mode where it can only receive, so publishing uses a second one.
+ */
+export class RedisInvalidationBus implements CacheInvalidationBus {
+    private publisher: RespClient;
+    private subscriber: RespClient;
+
+    constructor(url: string, private channel: string) {
+        this.publisher = new RespClient(url);
+        this.subscriber = new RespClient(url);
+    }
+
+    async publish(message: InvalidationMessage): Promise<void> {
+        await this.publisher.command("PUBLISH", this.channel, JSON.stringify(message));
+    }
+
+    async subscribe(handler: (message: InvalidationMessage) => void): Promise<void> {
+        await this.subscriber.subscribe(this.channel, (_channel, payload) => {
+            let message: InvalidationMessage;
+            try {
+                message = JSON.parse(payload);
+            } catch {
+                Logger.warn(`Ignoring malformed cache invalidation message on ${this.channel}`);
+                return;
+            }
+            handler(message);
+        });
+    }
+
+    async dispose(): Promise<void> {
+        this.publisher.close();
+        this.subscriber.close();
+    }
+}
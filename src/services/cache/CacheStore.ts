@@ -0,0 +1,18 @@
+export interface CacheEntryOptions {
+    ttl?: number;
+    tags?: string[];
+}
+
+/**
+ * Where cached values live. Implementations must be safe to share between
+ * CacheService instances; `CacheService` adds single-flight loading, metrics
+ * and cross-instance invalidation on top.
+ */
+export interface CacheStore {
+    get(key: string): Promise<any | null>;
+    set(key: string, value: any, options: CacheEntryOptions): Promise<void>;
+    delete(key: string): Promise<void>;
+    invalidateTags(tags: string[]): Promise<void>;
+    clear(): Promise<void>;
+    dispose(): Promise<void>;
+}
@@ -0,0 +1,143 @@
+import { Logger } from "../../utils/Logger";
+import { Metrics } from "../../utils/Metrics";
+import { CacheEntryOptions, CacheStore } from "./CacheStore";
+
+const cacheEvictions = Metrics.counter("cache_evictions_total", "Entries removed from the cache", ["reason"]);
+
+export interface MemoryCacheOptions {
+    maxEntries: number;
+    defaultTtlMs: number;
+    sweepIntervalMs: number;
+}
+
+interface CacheEntry {
+    data: any;
+    expiry: number;
+    tags: string[];
+}
+
+type EvictionReason = "expired" | "capacity" | "invalidated" | "cleared";
+
+/**
+ * In-process LRU store. Entries expire after their TTL (swept periodically,
+ * not only when read), the least recently used entry is dropped once
+ * `maxEntries` is reached, and a tag index lets related keys be invalidated
+ * together.
+ */
+export class MemoryCacheStore implements CacheStore {
+    // Map iteration order doubles as the LRU order: oldest first
+    private cache: Map<string, CacheEntry> = new Map();
+    private tagIndex: Map<string, Set<string>> = new Map();
+    private sweepTimer?: NodeJS.Timeout;
+
+    constructor(private options: MemoryCacheOptions) {
+        if (options.sweepIntervalMs > 0) {
+            this.sweepTimer = setInterval(() => this.sweep(), options.sweepIntervalMs);
+            this.sweepTimer.unref();
+        }
+    }
+
+    async get(key: string): Promise<any | null> {
+        const cached = this.cache.get(key);
+        if (!cached) {
+            return null;
+        }
+
+        if (Date.now() > cached.expiry) {
+            Logger.debug(`Cache expired for key: ${key}`);
+            this.evict(key, "expired");
+            return null;
+        }
+
+        // Move to the most recently used end
+        this.cache.delete(key);
+        this.cache.set(key, cached);
+        return cached.data;
+    }
+
+    async set(key: string, value: any, options: CacheEntryOptions): Promise<void> {
+        this.remove(key);
+
+        const tags = options.tags ?? [];
+        this.cache.set(key, { data: value, expiry: Date.now() + (options.ttl ?? this.options.defaultTtlMs), tags });
+        for (const tag of tags) {
+            if (!this.tagIndex.has(tag)) {
+                this.tagIndex.set(tag, new Set());
+            }
+            this.tagIndex.get(tag)!.add(key);
+        }
+
+        while (this.cache.size > this.options.maxEntries) {
+            const oldest = this.cache.keys().next().value as string;
+            Logger.debug(`Cache full, evicting least recently used key: ${oldest}`);
+            this.evict(oldest, "capacity");
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.evict(key, "invalidated");
+    }
+
+    async invalidateTags(tags: string[]): Promise<void> {
+        for (const tag of tags) {
+            const keys = this.tagIndex.get(tag);
+            if (!keys) {
+                continue;
+            }
+            Logger.debug(`Invalidating ${keys.size} cache entries tagged: ${tag}`);
+            for (const key of [...keys]) {
+                this.evict(key, "invalidated");
+            }
+        }
+    }
+
+    async clear(): Promise<void> {
+        cacheEvictions.inc({ reason: "cleared" }, this.cache.size);
+        this.cache.clear();
+        this.tagIndex.clear();
+    }
+
+    async dispose(): Promise<void> {
+        if (this.sweepTimer) {
+            clearInterval(this.sweepTimer);
+            this.sweepTimer = undefined;
+        }
+    }
+
+    sweep(): void {
+        const now = Date.now();
+        let swept = 0;
+        for (const [key, entry] of [...this.cache]) {
+            if (now > entry.expiry) {
+                this.evict(key, "expired");
+                swept++;
+            }
+        }
+        if (swept > 0) {
+            Logger.debug(`Swept ${swept} expired cache entries`);
+        }
+    }
+
+    private evict(key: string, reason: EvictionReason): void {
+        if (this.remove(key)) {
+            cacheEvictions.inc({ reason });
+        }
+    }
+
+    private remove(key: string): boolean {
+        const entry = this.cache.get(key);
+        if (!entry) {
+            return false;
+        }
+
+        this.cache.delete(key);
+        for (const tag of entry.tags) {
+            const keys = this.tagIndex.get(tag);
+            keys?.delete(key);
+            if (keys?.size === 0) {
+                this.tagIndex.delete(tag);
+            }
+        }
+        return true;
+    }
+}
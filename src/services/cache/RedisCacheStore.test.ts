@@ -0,0 +1,57 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import "../../testing/fixtures";
+import { RespStandIn } from "../../testing/RespStandIn";
+import { RedisCacheStore } from "./RedisCacheStore";
+
+describe("RedisCacheStore", () => {
+    const server = new RespStandIn();
+    let store: RedisCacheStore;
+
+    before(async () => {
+        store = new RedisCacheStore({ url: await server.start(), keyPrefix: "test:", defaultTtlMs: 60000 });
+    });
+
+    after(async () => {
+        await store.dispose();
+        await server.stop();
+    });
+
+    it("stores values as JSON and revives dates", async () => {
+        const value = { title: "Write the report", deadline: new Date("2030-01-01T09:00:00.000Z") };
+
+        await store.set("task:1", value, {});
+
+        assert.deepEqual(await store.get("task:1"), value);
+        assert.equal(await store.get("task:2"), null);
+    });
+
+    it("expires values after their TTL", async () => {
+        await store.set("short", "lived", { ttl: 20 });
+        await new Promise(resolve => setTimeout(resolve, 40));
+
+        assert.equal(await store.get("short"), null);
+    });
+
+    it("invalidates every key carrying a tag and nothing else", async () => {
+        await store.set("a", 1, { tags: ["owner:1"] });
+        await store.set("b", 2, { tags: ["owner:1", "task:2"] });
+        await store.set("c", 3, { tags: ["owner:2"] });
+
+        await store.invalidateTags(["owner:1"]);
+
+        assert.equal(await store.get("a"), null);
+        assert.equal(await store.get("b"), null);
+        assert.equal(await store.get("c"), 3);
+        assert.equal(server.has("test:tag:owner:1"), false);
+    });
+
+    it("clears only its own keys", async () => {
+        await store.set("mine", 1, {});
+
+        await store.clear();
+
+        assert.equal(await store.get("mine"), null);
+        assert.equal(server.has("test:data:mine"), false);
+    });
+});
@@ -0,0 +1,86 @@
+import { CacheEntryOptions, CacheStore } from "./CacheStore";
+import { RespClient } from "./RespClient";
+
+export interface RedisCacheOptions {
+    url: string;
+    keyPrefix: string;
+    defaultTtlMs: number;
+}
+
+// JSON has no date type; cached tasks carry dates that callers compare and sort on
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+function reviveDates(_key: string, value: unknown): unknown {
+    return typeof value === "string" && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+/**
+ * Store backed by a Redis-compatible server, shared by every instance that
+ * points at it. Values are JSON, expiry is left to the server, and each tag is
+ * a set of the keys carrying it so a tag can be invalidated in one pass.
+ */
+export class RedisCacheStore implements CacheStore {
+    private client: RespClient;
+
+    constructor(private options: RedisCacheOptions) {
+        this.client = new RespClient(options.url);
+    }
+
+    async get(key: string): Promise<any | null> {
+        const raw = await this.client.command("GET", this.dataKey(key));
+        return typeof raw === "string" ? JSON.parse(raw, reviveDates) : null;
+    }
+
+    async set(key: string, value: any, options: CacheEntryOptions): Promise<void> {
+        const ttl = options.ttl ?? this.options.defaultTtlMs;
+        const dataKey = this.dataKey(key);
+        await this.client.command("SET", dataKey, JSON.stringify(value), "PX", ttl);
+
+        for (const tag of options.tags ?? []) {
+            const tagKey = this.tagKey(tag);
+            await this.client.command("SADD", tagKey, dataKey);
+            // The tag set only needs to outlive its longest-lived member
+            const remaining = await this.client.command("PTTL", tagKey);
+            if (typeof remaining === "number" && remaining < ttl) {
+                await this.client.command("PEXPIRE", tagKey, ttl);
+            }
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.command("DEL", this.dataKey(key));
+    }
+
+    async invalidateTags(tags: string[]): Promise<void> {
+        for (const tag of tags) {
+            const tagKey = this.tagKey(tag);
+            const members = await this.client.command("SMEMBERS", tagKey);
+            const keys = Array.isArray(members) ? members as string[] : [];
+            await this.client.command("DEL", tagKey, ...keys);
+        }
+    }
+
+    async clear(): Promise<void> {
+        let cursor = "0";
+        do {
+            const reply = await this.client.command("SCAN", cursor, "MATCH", `${this.options.keyPrefix}*`, "COUNT", 100);
+            const [nextCursor, keys] = reply as [string, string[]];
+            if (keys.length > 0) {
+                await this.client.command("DEL", ...keys);
+            }
+            cursor = nextCursor;
+        } while (cursor !== "0");
+    }
+
+    async dispose(): Promise<void> {
+        this.client.close();
+    }
+
+    private dataKey(key: string): string {
+        return `${this.options.keyPrefix}data:${key}`;
+    }
+
+    private tagKey(tag: string): string {
+        return `${this.options.keyPrefix}tag:${tag}`;
+    }
+}
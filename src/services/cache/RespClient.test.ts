@@ -0,0 +1,73 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import "../../testing/fixtures";
+import { RespStandIn } from "../../testing/RespStandIn";
+import { RespClient, RespError } from "./RespClient";
+
+describe("RespClient", () => {
+    const server = new RespStandIn();
+    let url: string;
+
+    before(async () => {
+        url = await server.start();
+    });
+
+    after(() => server.stop());
+
+    it("sends commands and reads their replies in order", async () => {
+        const client = new RespClient(url);
+        try {
+            const replies = await Promise.all([
+                client.command("SET", "greeting", "hello"),
+                client.command("GET", "greeting"),
+                client.command("GET", "missing")
+            ]);
+            assert.deepEqual(replies, ["OK", "hello", null]);
+            await assert.rejects(client.command("NOPE"), RespError);
+        } finally {
+            client.close();
+        }
+    });
+
+    it("fails pending commands when no reply arrives in time, then reconnects", async () => {
+        const client = new RespClient(url, { commandTimeoutMs: 50 });
+        try {
+            server.unresponsive = true;
+            const pending = [client.command("GET", "a"), client.command("GET", "b")];
+            for (const command of pending) {
+                await assert.rejects(command, /did not reply within 50ms/);
+            }
+
+            server.unresponsive = false;
+            assert.equal(await client.command("SET", "a", "1"), "OK");
+        } finally {
+            server.unresponsive = false;
+            client.close();
+        }
+    });
+
+    it("fails commands when the server cannot be reached", async () => {
+        const unreachable = new RespStandIn();
+        const unreachableUrl = await unreachable.start();
+        await unreachable.stop();
+
+        const client = new RespClient(unreachableUrl, { connectTimeoutMs: 200 });
+        try {
+            await assert.rejects(client.command("GET", "a"), RespError);
+        } finally {
+            client.close();
+        }
+    });
+
+    it("fails pending commands when closed", async () => {
+        const client = new RespClient(url);
+        server.unresponsive = true;
+        try {
+            const pending = client.command("GET", "a");
+            client.close();
+            await assert.rejects(pending, /Client is closed/);
+        } finally {
+            server.unresponsive = false;
+        }
+    });
+});
@@ -0,0 +1,256 @@
+import net from "net";
+import { Logger } from "../../utils/Logger";
+
+export type RespValue = string | number | null | RespValue[];
+
+export class RespError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "RespError";
+    }
+}
+
+export interface RespClientOptions {
+    reconnectDelayMs: number;
+    connectTimeoutMs: number;
+    // How long a command may wait for its reply once the connection is up
+    commandTimeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: RespClientOptions = {
+    reconnectDelayMs: 1000,
+    connectTimeoutMs: 5000,
+    commandTimeoutMs: 2000
+};
+
+interface PendingReply {
+    resolve: (value: RespValue) => void;
+    reject: (error: Error) => void;
+    timer?: NodeJS.Timeout;
+}
+
+interface Parsed {
+    value: RespValue | RespError;
+    next: number;
+}
+
+type MessageHandler = (channel: string, message: string) => void;
+
+/**
+ * Minimal client for the Redis serialization protocol (RESP2): enough to send
+ * commands and receive pub/sub messages, without pulling in a driver. Works
+ * against Redis, Valkey, KeyDB or any local stand-in server speaking RESP.
+ *
+ * Replies arrive in command order, so pending commands are a FIFO queue. A
+ * client that has subscribed to a channel should not be used for other
+ * commands, as the protocol forbids them in that mode.
+ *
+ * A connection that cannot be opened in time, or a reply that does not
+ * arrive in time, fails every pending command and drops the connection; the
+ * next command reconnects. Later replies could not be matched to their
+ * commands once one is skipped, so the connection is not kept.
+ */
+export class RespClient {
+    private socket?: net.Socket;
+    private buffer: Buffer = Buffer.alloc(0);
+    private pending: PendingReply[] = [];
+    private subscriptions: Map<string, MessageHandler> = new Map();
+    private reconnectTimer?: NodeJS.Timeout;
+    private closed = false;
+    private options: RespClientOptions;
+
+    constructor(private url: string, options: Partial<RespClientOptions> = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    command(...args: (string | number)[]): Promise<RespValue> {
+        if (this.closed) {
+            return Promise.reject(new RespError("Client is closed"));
+        }
+
+        const socket = this.connect();
+        return new Promise((resolve, reject) => {
+            const reply: PendingReply = { resolve, reject };
+            this.pending.push(reply);
+            socket.write(RespClient.encode(args));
+
+            const startTimer = () => {
+                reply.timer = setTimeout(() => this.drop(socket,
+                    new RespError(`Cache server did not reply within ${this.options.commandTimeoutMs}ms`)
+                ), this.options.commandTimeoutMs);
+            };
+            if (socket.connecting) {
+                socket.once("connect", startTimer);
+            } else {
+                startTimer();
+            }
+        });
+    }
+
+    async subscribe(channel: string, handler: MessageHandler): Promise<void> {
+        // Connect first so the new channel is not also replayed as a resubscription
+        this.connect();
+        this.subscriptions.set(channel, handler);
+        await this.command("SUBSCRIBE", channel);
+    }
+
+    close(): void {
+        this.closed = true;
+        clearTimeout(this.reconnectTimer);
+        if (this.socket) {
+            this.drop(this.socket, new RespError("Client is closed"));
+        }
+    }
+
+    static encode(args: (string | number)[]): string {
+        let out = `*${args.length}\r\n`;
+        for (const arg of args) {
+            const value = String(arg);
+            out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+        }
+        return out;
+    }
+
+    /** Parses one reply starting at `offset`, or returns null if it is not complete yet. */
+    static parse(buffer: Buffer, offset = 0): Parsed | null {
+        const lineEnd = buffer.indexOf("\r\n", offset);
+        if (lineEnd === -1) {
+            return null;
+        }
+
+        const type = String.fromCharCode(buffer[offset]);
+        const line = buffer.toString("utf8", offset + 1, lineEnd);
+        const next = lineEnd + 2;
+
+        switch (type) {
+            case "+":
+                return { value: line, next };
+            case "-":
+                return { value: new RespError(line), next };
+            case ":":
+                return { value: Number(line), next };
+            case "$": {
+                const length = Number(line);
+                if (length === -1) {
+                    return { value: null, next };
+                }
+                if (buffer.length < next + length + 2) {
+                    return null;
+                }
+                return { value: buffer.toString("utf8", next, next + length), next: next + length + 2 };
+            }
+            case "*": {
+                const count = Number(line);
+                if (count === -1) {
+                    return { value: null, next };
+                }
+                const items: RespValue[] = [];
+                let error: RespError | undefined;
+                let cursor = next;
+                for (let i = 0; i < count; i++) {
+                    const item = RespClient.parse(buffer, cursor);
+                    if (!item) {
+                        return null;
+                    }
+                    if (item.value instanceof RespError) {
+                        error ??= item.value;
+                    } else {
+                        items.push(item.value);
+                    }
+                    cursor = item.next;
+                }
+                return { value: error ?? items, next: cursor };
+            }
+            default:
+                throw new RespError(`Unexpected reply type '${type}'`);
+        }
+    }
+
+    private connect(): net.Socket {
+        if (this.socket) {
+            return this.socket;
+        }
+
+        const { hostname, port } = new URL(this.url);
+        // Writes issued before the connection is up are buffered by the socket
+        const socket = net.createConnection({ host: hostname || "127.0.0.1", port: Number(port) || 6379 });
+        socket.setNoDelay(true);
+        socket.on("data", (chunk: Buffer) => this.onData(chunk));
+        socket.on("error", error => Logger.warn(`Cache server connection error: ${error.message}`));
+        socket.on("close", () => this.drop(socket, new RespError("Connection to cache server closed")));
+        this.socket = socket;
+
+        const connectTimer = setTimeout(() => this.drop(socket,
+            new RespError(`Could not connect to cache server within ${this.options.connectTimeoutMs}ms`)
+        ), this.options.connectTimeoutMs);
+        socket.once("connect", () => clearTimeout(connectTimer));
+        socket.once("close", () => clearTimeout(connectTimer));
+
+        for (const channel of this.subscriptions.keys()) {
+            this.pending.push({ resolve: () => undefined, reject: () => undefined });
+            socket.write(RespClient.encode(["SUBSCRIBE", channel]));
+        }
+        return socket;
+    }
+
+    private onData(chunk: Buffer): void {
+        this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+        let parsed: Parsed | null;
+        try {
+            while ((parsed = RespClient.parse(this.buffer)) !== null) {
+                this.buffer = this.buffer.subarray(parsed.next);
+                this.dispatch(parsed.value);
+            }
+        } catch (error) {
+            Logger.error("Dropping cache server connection after a malformed reply", error);
+            this.socket?.destroy();
+        }
+    }
+
+    private dispatch(value: RespValue | RespError): void {
+        if (Array.isArray(value) && value[0] === "message" && this.subscriptions.size > 0) {
+            const [, channel, message] = value as string[];
+            try {
+                this.subscriptions.get(channel)?.(channel, message);
+            } catch (error) {
+                Logger.error(`Handler for channel ${channel} failed`, error);
+            }
+            return;
+        }
+
+        const reply = this.pending.shift();
+        if (!reply) {
+            Logger.warn("Received a cache server reply with no pending command");
+            return;
+        }
+        clearTimeout(reply.timer);
+        if (value instanceof RespError) {
+            reply.reject(value);
+        } else {
+            reply.resolve(value);
+        }
+    }
+
+    // Fails everything pending on `socket` with `error` and lets the next command reconnect
+    private drop(socket: net.Socket, error: RespError): void {
+        if (this.socket !== socket) {
+            return;
+        }
+
+        this.socket = undefined;
+        this.buffer = Buffer.alloc(0);
+        socket.destroy();
+        const failed = this.pending.splice(0);
+        for (const reply of failed) {
+            clearTimeout(reply.timer);
+            reply.reject(error);
+        }
+
+        // Subscribers have no command traffic to trigger a reconnect, so retry on a timer
+        if (!this.closed && this.subscriptions.size > 0) {
+            this.reconnectTimer = setTimeout(() => this.connect(), this.options.reconnectDelayMs);
+            this.reconnectTimer.unref();
+        }
+    }
+}
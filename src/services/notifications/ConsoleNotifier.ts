@@ -0,0 +1,13 @@
+import { Logger } from "../../utils/Logger";
+import { Notification, Notifier } from "./Notifier";
+
+/**
+ * Writes notifications to stdout, bypassing log redaction so that tokens in
+ * the body stay usable. Meant for local development only.
+ */
+export class ConsoleNotifier implements Notifier {
+    async send(notification: Notification): Promise<void> {
+        Logger.info(`Sending notification "${notification.subject}"`);
+        process.stdout.write(`--- To: ${notification.to}\n--- Subject: ${notification.subject}\n${notification.body}\n---\n`);
+    }
+}
@@ -0,0 +1,13 @@
+export interface Notification {
+    to: string;
+    subject: string;
+    body: string;
+}
+
+/**
+ * Delivers messages to users (verification links, password resets, ...).
+ * Implementations decide the channel; callers only describe the message.
+ */
+export interface Notifier {
+    send(notification: Notification): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { Logger } from "../../utils/Logger";
+import { JsonLinesFile } from "../../utils/JsonLinesFile";
+import { Notification, Notifier } from "./Notifier";
+
+/**
+ * Appends each notification as a JSON line to an outbox file, for a separate
+ * mailer process (or a test) to pick up.
+ */
+export class OutboxNotifier implements Notifier {
+    private outbox: JsonLinesFile;
+
+    constructor(filePath: string) {
+        this.outbox = new JsonLinesFile(filePath);
+    }
+
+    async send(notification: Notification): Promise<void> {
+        await this.outbox.append({ ...notification, createdAt: new Date().toISOString() });
+        Logger.info(`Queued notification "${notification.subject}" in outbox`);
+    }
+}
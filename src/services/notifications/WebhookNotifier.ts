@@ -0,0 +1,23 @@
+import { Logger } from "../../utils/Logger";
+import { Notification, Notifier } from "./Notifier";
+
+/**
+ * POSTs each notification as JSON to a webhook, e.g. a chat integration or a
+ * mail relay. Any non-2xx response counts as a failed delivery.
+ */
+export class WebhookNotifier implements Notifier {
+    constructor(private url: string, private timeoutMs = 5000) { }
+
+    async send(notification: Notification): Promise<void> {
+        const response = await fetch(this.url, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ ...notification, createdAt: new Date().toISOString() }),
+            signal: AbortSignal.timeout(this.timeoutMs)
+        });
+        if (!response.ok) {
+            throw new Error(`Webhook responded with ${response.status}`);
+        }
+        Logger.info(`Delivered notification "${notification.subject}" to webhook`);
+    }
+}
@@ -0,0 +1,120 @@
+import net, { AddressInfo } from "net";
+import { RespClient, RespError } from "../services/cache/RespClient";
+
+type Reply = string | number | null | Reply[] | { status: string } | { error: string };
+
+function encode(reply: Reply): string {
+    if (reply === null) return "$-1\r\n";
+    if (typeof reply === "number") return `:${reply}\r\n`;
+    if (typeof reply === "string") return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+    if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encode).join("")}`;
+    return "status" in reply ? `+${reply.status}\r\n` : `-${reply.error}\r\n`;
+}
+
+/**
+ * In-process server speaking just enough RESP for the cache store and the
+ * invalidation bus: strings with expiry, sets, SCAN, and pub/sub. Setting
+ * `unresponsive` makes it read commands without ever replying.
+ */
+export class RespStandIn {
+    unresponsive = false;
+    private values: Map<string, string | Set<string>> = new Map();
+    private expiries: Map<string, number> = new Map();
+    private subscribers: Map<string, Set<net.Socket>> = new Map();
+    private sockets: Set<net.Socket> = new Set();
+    private server = net.createServer(socket => this.accept(socket));
+
+    async start(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+        return `redis://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    async stop(): Promise<void> {
+        for (const socket of this.sockets) {
+            socket.destroy();
+        }
+        await new Promise(resolve => this.server.close(resolve));
+    }
+
+    has(key: string): boolean {
+        if ((this.expiries.get(key) ?? Infinity) <= Date.now()) {
+            this.values.delete(key);
+            this.expiries.delete(key);
+        }
+        return this.values.has(key);
+    }
+
+    private accept(socket: net.Socket): void {
+        this.sockets.add(socket);
+        let buffer: Buffer = Buffer.alloc(0);
+
+        socket.on("data", (chunk: Buffer) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            let parsed;
+            while ((parsed = RespClient.parse(buffer)) !== null) {
+                buffer = buffer.subarray(parsed.next);
+                if (parsed.value instanceof RespError || !Array.isArray(parsed.value)) {
+                    socket.write(encode({ error: "ERR protocol error" }));
+                    continue;
+                }
+                if (!this.unresponsive) {
+                    socket.write(encode(this.execute(socket, parsed.value.map(String))));
+                }
+            }
+        });
+        socket.on("error", () => undefined);
+        socket.on("close", () => {
+            this.sockets.delete(socket);
+            this.subscribers.forEach(sockets => sockets.delete(socket));
+        });
+    }
+
+    private execute(socket: net.Socket, [command, ...args]: string[]): Reply {
+        switch (command.toUpperCase()) {
+            case "GET":
+                return this.has(args[0]) ? this.values.get(args[0]) as string : null;
+            case "SET":
+                this.values.set(args[0], args[1]);
+                this.expiries.delete(args[0]);
+                if (args[2]?.toUpperCase() === "PX") {
+                    this.expiries.set(args[0], Date.now() + Number(args[3]));
+                }
+                return { status: "OK" };
+            case "DEL":
+                return args.filter(key => this.has(key) && this.values.delete(key)).length;
+            case "SADD": {
+                const set = this.has(args[0]) ? this.values.get(args[0]) as Set<string> : new Set<string>();
+                this.values.set(args[0], set);
+                const added = args.slice(1).filter(member => !set.has(member));
+                added.forEach(member => set.add(member));
+                return added.length;
+            }
+            case "SMEMBERS":
+                return this.has(args[0]) ? [...this.values.get(args[0]) as Set<string>] : [];
+            case "PTTL":
+                if (!this.has(args[0])) return -2;
+                return this.expiries.has(args[0]) ? this.expiries.get(args[0])! - Date.now() : -1;
+            case "PEXPIRE":
+                if (!this.has(args[0])) return 0;
+                this.expiries.set(args[0], Date.now() + Number(args[1]));
+                return 1;
+            case "SCAN": {
+                const pattern = new RegExp(`^${args[2].replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`);
+                return ["0", [...this.values.keys()].filter(key => this.has(key) && pattern.test(key))];
+            }
+            case "SUBSCRIBE": {
+                const sockets = this.subscribers.get(args[0]) ?? new Set();
+                sockets.add(socket);
+                this.subscribers.set(args[0], sockets);
+                return ["subscribe", args[0], 1];
+            }
+            case "PUBLISH": {
+                const sockets = this.subscribers.get(args[0]) ?? new Set();
+                sockets.forEach(subscriber => subscriber.write(encode(["message", args[0], args[1]])));
+                return sockets.size;
+            }
+            default:
+                return { error: `ERR unknown command '${command}'` };
+        }
+    }
+}
@@ -0,0 +1,140 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { TaskRepository } from "../repositories/TaskRepository";
+import { UserRepository } from "../repositories/UserRepository";
+import { ProjectRepository } from "../repositories/ProjectRepository";
+import { CacheService } from "../services/CacheService";
+import { MemoryCacheStore } from "../services/cache/MemoryCacheStore";
+import { TaskService } from "../services/TaskService";
+import { ProjectService } from "../services/ProjectService";
+import { UserService } from "../services/UserService";
+import { AuthService } from "../services/AuthService";
+import { AuditLog } from "../services/AuditLog";
+import { LoginThrottle } from "../services/LoginThrottle";
+import { TokenRevocationList } from "../services/TokenRevocationList";
+import { Notification, Notifier } from "../services/notifications/Notifier";
+import { RefreshTokenRepository } from "../repositories/RefreshTokenRepository";
+import { PasswordResetTokenRepository } from "../repositories/PasswordResetTokenRepository";
+import { Role, Task, TaskStatus, User } from "../types/DTOs";
+import { TransactionManager } from "../utils/TransactionManager";
+import { Clock } from "../utils/Clock";
+import { LogLevel, Logger } from "../utils/Logger";
+
+// Keeps test output to the results and the errors tests provoke
+Logger.configure({ level: LogLevel.ERROR });
+
+/** A clock that only moves when told to. */
+export class FixedClock implements Clock {
+    constructor(private current: Date) { }
+
+    now(): Date {
+        return new Date(this.current);
+    }
+
+    set(date: Date): void {
+        this.current = new Date(date);
+    }
+
+    advance(ms: number): void {
+        this.current = new Date(this.current.getTime() + ms);
+    }
+}
+
+/** Keeps sent notifications for assertions instead of delivering them. */
+export class RecordingNotifier implements Notifier {
+    sent: Notification[] = [];
+
+    async send(notification: Notification): Promise<void> {
+        this.sent.push(notification);
+    }
+}
+
+export interface TaskFixture {
+    transactionManager: TransactionManager;
+    taskRepository: TaskRepository;
+    userRepository: UserRepository;
+    projectRepository: ProjectRepository;
+    taskService: TaskService;
+}
+
+export interface TaskFixtureOptions {
+    clock?: Clock;
+    // Lets a test substitute a repository that fails or pauses at a chosen step
+    createTaskRepository?: (transactionManager: TransactionManager) => TaskRepository;
+}
+
+/** A TaskService over fresh in-memory repositories and cache. */
+export function createTaskFixture(options: TaskFixtureOptions = {}): TaskFixture {
+    const transactionManager = new TransactionManager();
+    const taskRepository = options.createTaskRepository?.(transactionManager) ?? new TaskRepository(transactionManager);
+    const userRepository = new UserRepository(transactionManager);
+    const projectRepository = new ProjectRepository(transactionManager);
+    const cacheService = new CacheService(new MemoryCacheStore({ maxEntries: 100, defaultTtlMs: 60000, sweepIntervalMs: 0 }));
+    const clock = options.clock ?? new FixedClock(new Date("2030-01-01T09:00:00Z"));
+    const taskService = new TaskService(taskRepository, userRepository, projectRepository, cacheService, transactionManager, clock);
+
+    return { transactionManager, taskRepository, userRepository, projectRepository, taskService };
+}
+
+export interface UserFixture extends TaskFixture {
+    projectService: ProjectService;
+    userService: UserService;
+    notifier: RecordingNotifier;
+    // Removes the audit log file the fixture wrote
+    dispose(): Promise<void>;
+}
+
+/** A UserService and the services it depends on, sharing one transaction manager. */
+export function createUserFixture(options: TaskFixtureOptions = {}): UserFixture {
+    const fixture = createTaskFixture(options);
+    const { transactionManager, userRepository, projectRepository, taskService } = fixture;
+    const authService = new AuthService(
+        { secret: "test-secret", expiresIn: "15m", refreshTokenTtlSeconds: 3600, emailVerificationExpiresIn: "1d", passwordResetTtlSeconds: 3600 },
+        new RefreshTokenRepository(),
+        new TokenRevocationList(),
+        new PasswordResetTokenRepository()
+    );
+    const projectService = new ProjectService(projectRepository, userRepository, taskService, transactionManager);
+    const notifier = new RecordingNotifier();
+    const auditLogPath = path.join(os.tmpdir(), `audit-${crypto.randomUUID()}.jsonl`);
+    const auditLog = new AuditLog(auditLogPath);
+    const loginThrottle = new LoginThrottle({
+        accountMaxFailures: 5, ipMaxFailures: 20, baseLockoutSeconds: 1, maxLockoutSeconds: 60, failureWindowSeconds: 60
+    });
+    const userService = new UserService(
+        userRepository, authService, taskService, projectService, notifier, auditLog, loginThrottle, transactionManager
+    );
+
+    const dispose = () => fs.rm(auditLogPath, { force: true });
+
+    return { ...fixture, projectService, userService, notifier, dispose };
+}
+
+export function buildUser(overrides: Partial<User> = {}): User {
+    const id = overrides.id ?? crypto.randomUUID();
+    return {
+        id,
+        email: `${id}@example.com`,
+        password: "not-a-real-hash",
+        role: Role.USER,
+        disabled: false,
+        emailVerified: true,
+        ...overrides
+    };
+}
+
+export function buildTask(ownerId: string, overrides: Partial<Task> = {}): Task {
+    return {
+        id: crypto.randomUUID(),
+        title: `Task ${crypto.randomUUID()}`,
+        status: TaskStatus.TODO,
+        priority: "MEDIUM",
+        ownerId,
+        collaborators: [],
+        blockedBy: [],
+        createdAt: new Date("2030-01-01T00:00:00Z"),
+        statusHistory: [],
+        ...overrides
+    };
+}
@@ -3,10 +3,56 @@ export enum Role {
     ADMIN = "ADMIN"
 }
 
+export enum TaskStatus {
+    TODO = "TODO",
+    IN_PROGRESS = "IN_PROGRESS",
+    DONE = "DONE",
+    CANCELLED = "CANCELLED"
+}
+
+// What a collaborator may do with a task shared with them. The assignee can
+// edit it like an editor and is who the task is assigned to.
+export enum ShareRole {
+    VIEWER = "VIEWER",
+    EDITOR = "EDITOR",
+    ASSIGNEE = "ASSIGNEE"
+}
+
+export enum RecurrenceFrequency {
+    DAILY = "DAILY",
+    WEEKLY = "WEEKLY",
+    MONTHLY = "MONTHLY"
+}
+
+export enum Weekday {
+    MO = "MO",
+    TU = "TU",
+    WE = "WE",
+    TH = "TH",
+    FR = "FR",
+    SA = "SA",
+    SU = "SU"
+}
+
+/**
+ * Modelled on iCalendar's RRULE. The first occurrence is the task's own
+ * deadline; `byWeekday` and `byMonthDay` default to that deadline's.
+ */
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    // Every n days, weeks or months; defaults to 1
+    interval?: number;
+    byWeekday?: Weekday[];
+    byMonthDay?: number;
+    // Total number of occurrences, including the first
+    count?: number;
+    until?: Date;
+}
+
+// Every account starts as USER; roles are assigned by an admin afterwards
 export interface CreateUserDTO {
     email: string;
     password: string;
-    role?: Role;
 }
 
 export interface LoginDTO {
@@ -14,20 +60,120 @@ export interface LoginDTO {
     password: string;
 }
 
+export interface UpdateProfileDTO {
+    email?: string;
+    password?: string;
+    // Required when changing the password
+    currentPassword?: string;
+}
+
+export interface ChangeRoleDTO {
+    role: Role;
+}
+
+export interface UserQuery {
+    search?: string;
+    role?: Role;
+    disabled?: boolean;
+    limit: number;
+    offset: number;
+}
+
+export interface VerifyEmailDTO {
+    token: string;
+}
+
+export interface ForgotPasswordDTO {
+    email: string;
+}
+
+export interface ResetPasswordDTO {
+    token: string;
+    password: string;
+}
+
+export interface RefreshTokenDTO {
+    refreshToken: string;
+}
+
+export interface AuthTokens {
+    accessToken: string;
+    refreshToken: string;
+    tokenType: "Bearer";
+}
+
 export interface CreateTaskDTO {
     title: string;
     description?: string;
     deadline?: Date;
     priority?: 'LOW' | 'MEDIUM' | 'HIGH';
     ownerId: string;
+    projectId?: string;
+    // Makes the new task a subtask of this one
+    parentId?: string;
+    recurrence?: RecurrenceRule;
 }
 
 export interface UpdateTaskDTO {
     title?: string;
     description?: string;
-    status?: string;
+    status?: TaskStatus;
     deadline?: Date;
     priority?: 'LOW' | 'MEDIUM' | 'HIGH';
+    projectId?: string;
+}
+
+export interface CreateProjectDTO {
+    name: string;
+    description?: string;
+}
+
+export interface UpdateProjectDTO {
+    name?: string;
+    description?: string;
+}
+
+export interface ProjectMemberDTO {
+    userId: string;
+}
+
+// What happens to a project's tasks when it is deleted
+export interface DeleteProjectOptions {
+    tasks: "move" | "delete";
+    // Where moved tasks go; without it they no longer belong to any project
+    targetProjectId?: string;
+}
+
+export interface TaskDependencyDTO {
+    // The task that has to be finished first
+    taskId: string;
+}
+
+export interface ShareTaskDTO {
+    userId: string;
+    role: ShareRole;
+}
+
+export type TaskSortField = 'deadline' | 'priority' | 'createdAt';
+
+export interface TaskQuery {
+    status?: TaskStatus;
+    priority?: 'LOW' | 'MEDIUM' | 'HIGH';
+    deadlineFrom?: Date;
+    deadlineTo?: Date;
+    search?: string;
+    projectId?: string;
+    sortBy?: TaskSortField;
+    sortOrder?: 'asc' | 'desc';
+    limit: number;
+    offset: number;
+}
+
+export interface PaginatedResult<T> {
+    items: T[];
+    total: number;
+    limit: number;
+    offset: number;
 }
 
 export interface User {
@@ -35,15 +181,95 @@ export interface User {
     email: string;
     password: string;
     role: Role;
+    disabled: boolean;
+    // Unverified accounts can sign in but not create tasks
+    emailVerified: boolean;
 }
 
 export interface Task {
     id: string;
     title: string;
     description?: string;
-    status: string;
+    status: TaskStatus;
     deadline?: Date;
     priority: 'LOW' | 'MEDIUM' | 'HIGH';
     ownerId: string;
+    projectId?: string;
+    assigneeId?: string;
+    collaborators: TaskShare[];
+    parentId?: string;
+    // Tasks that must be closed before this one can be started or finished
+    blockedBy: string[];
+    // Rolled up from the direct subtasks; absent while the task has none
+    progress?: SubtaskProgress;
+    recurrence?: TaskRecurrence;
+    // Set by the deadline scheduler once an open task is past its deadline
+    overdueAt?: Date;
+    // Reminder lead times (in minutes) already sent for the current deadline
+    remindedLeadTimes?: number[];
     createdAt: Date;
+    statusHistory: TaskStatusChange[];
+}
+
+export interface TaskRecurrence {
+    rule: RecurrenceRule;
+    // Id of the first task of the series
+    seriesId: string;
+    // 1-based position in the series
+    occurrence: number;
+    // Set once completing this task has created the next occurrence
+    nextTaskId?: string;
+}
+
+export interface DeadlineReminder {
+    task: Task;
+    leadTimeMinutes: number;
+}
+
+// Cancelled subtasks do not count towards the total
+export interface SubtaskProgress {
+    total: number;
+    done: number;
+    percent: number;
+}
+
+export interface Project {
+    id: string;
+    name: string;
+    description?: string;
+    ownerId: string;
+    memberIds: string[];
+    // Archived projects keep their tasks but hide them from listings
+    archived: boolean;
+    createdAt: Date;
+    archivedAt?: Date;
+}
+
+export interface TaskShare {
+    userId: string;
+    role: ShareRole;
+    sharedBy: string;
+    sharedAt: Date;
+}
+
+export interface TaskStatusChange {
+    from: TaskStatus | null;
+    to: TaskStatus;
+    changedBy: string;
+    changedAt: Date;
+}
+
+export interface RefreshTokenRecord {
+    tokenHash: string;
+    userId: string;
+    familyId: string;
+    expiresAt: Date;
+    rotatedAt?: Date;
+}
+
+export interface PasswordResetRecord {
+    tokenHash: string;
+    userId: string;
+    expiresAt: Date;
+    usedAt?: Date;
 }
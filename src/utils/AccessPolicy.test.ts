@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import "../testing/fixtures";
+import { AccessPolicy, Action, OwnedResource, Principal } from "./AccessPolicy";
+import { ForbiddenError } from "../errors/BaseError";
+import { Role, ShareRole } from "../types/DTOs";
+
+const owner: Principal = { userId: "owner", role: Role.USER };
+const admin: Principal = { userId: "admin", role: Role.ADMIN };
+const stranger: Principal = { userId: "stranger", role: Role.USER };
+const viewer: Principal = { userId: "viewer", role: Role.USER };
+const editor: Principal = { userId: "editor", role: Role.USER };
+const assignee: Principal = { userId: "assignee", role: Role.USER };
+const member: Principal = { userId: "member", role: Role.USER };
+
+const task: OwnedResource = {
+    ownerId: owner.userId,
+    collaborators: [
+        { userId: viewer.userId, role: ShareRole.VIEWER },
+        { userId: editor.userId, role: ShareRole.EDITOR },
+        { userId: assignee.userId, role: ShareRole.ASSIGNEE }
+    ]
+};
+const project: OwnedResource = { ownerId: owner.userId, memberIds: [member.userId] };
+
+const allowed = (action: Action, resource: OwnedResource, principals: Principal[]) =>
+    principals.filter(principal => AccessPolicy.can(principal, action, resource)).map(p => p.userId);
+
+describe("AccessPolicy", () => {
+    const everyone = [owner, admin, stranger, viewer, editor, assignee, member];
+
+    it("lets the owner, admins and any collaborator read a task", () => {
+        assert.deepEqual(allowed(Action.TASK_READ, task, everyone), ["owner", "admin", "viewer", "editor", "assignee"]);
+    });
+
+    it("lets editors and assignees but not viewers update a task", () => {
+        assert.deepEqual(allowed(Action.TASK_UPDATE, task, everyone), ["owner", "admin", "editor", "assignee"]);
+    });
+
+    it("keeps deleting and sharing a task to the owner and admins", () => {
+        assert.deepEqual(allowed(Action.TASK_DELETE, task, everyone), ["owner", "admin"]);
+        assert.deepEqual(allowed(Action.TASK_SHARE, task, everyone), ["owner", "admin"]);
+    });
+
+    it("lets project members read and add tasks but not change the project", () => {
+        assert.deepEqual(allowed(Action.PROJECT_READ, project, everyone), ["owner", "admin", "member"]);
+        assert.deepEqual(allowed(Action.PROJECT_ADD_TASK, project, everyone), ["owner", "admin", "member"]);
+        assert.deepEqual(allowed(Action.PROJECT_UPDATE, project, everyone), ["owner", "admin"]);
+        assert.deepEqual(allowed(Action.PROJECT_DELETE, project, everyone), ["owner", "admin"]);
+    });
+
+    it("lets only the owner and admins delete all of an owner's tasks", () => {
+        assert.deepEqual(allowed(Action.OWNER_TASKS_DELETE, { ownerId: owner.userId }, everyone), ["owner", "admin"]);
+    });
+
+    it("throws a ForbiddenError naming the action when authorization fails", () => {
+        assert.throws(() => AccessPolicy.authorize(viewer, Action.TASK_UPDATE, task),
+            (error: unknown) => error instanceof ForbiddenError && /task:update/.test(error.message));
+        assert.doesNotThrow(() => AccessPolicy.authorize(editor, Action.TASK_UPDATE, task));
+    });
+
+    it("recognizes only the known roles", () => {
+        assert.equal(AccessPolicy.isRole("ADMIN"), true);
+        assert.equal(AccessPolicy.isRole("SUPERUSER"), false);
+        assert.equal(AccessPolicy.isRole(undefined), false);
+    });
+});
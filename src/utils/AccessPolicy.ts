@@ -0,0 +1,78 @@
+import { Role, ShareRole } from "../types/DTOs";
+import { ForbiddenError } from "../errors/BaseError";
+import { Logger } from "./Logger";
+
+export enum Action {
+    TASK_READ = "task:read",
+    TASK_UPDATE = "task:update",
+    TASK_DELETE = "task:delete",
+    TASK_SHARE = "task:share",
+    PROJECT_READ = "project:read",
+    PROJECT_UPDATE = "project:update",
+    PROJECT_DELETE = "project:delete",
+    PROJECT_ADD_TASK = "project:add-task",
+    OWNER_TASKS_DELETE = "owner-tasks:delete"
+}
+
+export interface Principal {
+    userId: string;
+    role: Role;
+}
+
+export interface Collaborator {
+    userId: string;
+    role: ShareRole;
+}
+
+export interface OwnedResource {
+    ownerId: string;
+    // Users the owner shared the resource with, if it can be shared
+    collaborators?: Collaborator[];
+    // Members of a group resource such as a project
+    memberIds?: string[];
+}
+
+type Rule = (principal: Principal, resource: OwnedResource) => boolean;
+
+const isAdmin: Rule = principal => principal.role === Role.ADMIN;
+const isOwner: Rule = (principal, resource) => principal.userId === resource.ownerId;
+// With no roles given, any collaborator matches
+const isCollaborator = (...roles: ShareRole[]): Rule => (principal, resource) =>
+    (resource.collaborators ?? []).some(c =>
+        c.userId === principal.userId && (roles.length === 0 || roles.includes(c.role))
+    );
+const isMember: Rule = (principal, resource) => (resource.memberIds ?? []).includes(principal.userId);
+const anyOf = (...rules: Rule[]): Rule => (principal, resource) => rules.some(rule => rule(principal, resource));
+
+const RULES: Record<Action, Rule> = {
+    [Action.TASK_READ]: anyOf(isOwner, isAdmin, isCollaborator()),
+    [Action.TASK_UPDATE]: anyOf(isOwner, isAdmin, isCollaborator(ShareRole.EDITOR, ShareRole.ASSIGNEE)),
+    [Action.TASK_DELETE]: anyOf(isOwner, isAdmin),
+    [Action.TASK_SHARE]: anyOf(isOwner, isAdmin),
+    [Action.PROJECT_READ]: anyOf(isOwner, isAdmin, isMember),
+    [Action.PROJECT_UPDATE]: anyOf(isOwner, isAdmin),
+    [Action.PROJECT_DELETE]: anyOf(isOwner, isAdmin),
+    [Action.PROJECT_ADD_TASK]: anyOf(isOwner, isAdmin, isMember),
+    [Action.OWNER_TASKS_DELETE]: anyOf(isOwner, isAdmin)
+};
+
+/**
+ * The single place that decides whether a user may perform an action on a
+ * resource. Controllers and services ask it instead of checking roles inline.
+ */
+export class AccessPolicy {
+    static isRole(value: unknown): value is Role {
+        return Object.values(Role).includes(value as Role);
+    }
+
+    static can(principal: Principal, action: Action, resource: OwnedResource): boolean {
+        return RULES[action](principal, resource);
+    }
+
+    static authorize(principal: Principal, action: Action, resource: OwnedResource): void {
+        if (!this.can(principal, action, resource)) {
+            Logger.error(`Denied ${action} for user ${principal.userId} (${principal.role})`);
+            throw new ForbiddenError(`Not allowed to perform ${action}`);
+        }
+    }
+}
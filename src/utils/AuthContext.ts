@@ -1,4 +1,4 @@
-import { Request } from "express";
+import { AsyncLocalStorage } from "async_hooks";
 import { Logger } from "./Logger";
 import { Role } from "../types/DTOs";
 import { UnauthorizedError } from "../errors/BaseError";
@@ -6,42 +6,56 @@ import { UnauthorizedError } from "../errors/BaseError";
 export interface AuthContextData {
     userId: string;
     role: Role;
+    sessionId: string;
 }
 
+interface AuthContextStore {
+    context: AuthContextData | null;
+}
+
+/**
+ * Per-request authentication state. Each request runs inside its own
+ * AsyncLocalStorage scope (see `authContextMiddleware`), so concurrent requests
+ * never see each other's user across `await` boundaries.
+ */
 export class AuthContext {
-    private static context: AuthContextData | null = null;
+    private static storage = new AsyncLocalStorage<AuthContextStore>();
 
-    static extractFromHeaders(req: Request): void {
-        const userId = req.headers["x-user-id"] as string;
-        const role = req.headers["x-role"] as string;
+    static run<T>(callback: () => T): T {
+        return this.storage.run({ context: null }, callback);
+    }
 
-        if (!userId || !role) {
-            Logger.error("Missing authentication headers");
-            throw new UnauthorizedError("Authentication required");
+    private static store(): AuthContextStore {
+        const store = this.storage.getStore();
+        if (!store) {
+            throw new Error("AuthContext used outside of a request scope");
         }
+        return store;
+    }
 
-        this.context = {
-            userId,
-            role: role as Role
-        };
-
-        Logger.debug(`Auth context set: userId=${userId}, role=${role}`);
+    static set(data: AuthContextData): void {
+        this.store().context = data;
+        Logger.debug(`Auth context set: userId=${data.userId}, role=${data.role}`);
     }
 
     static get(): AuthContextData {
-        if (!this.context) {
+        const context = this.storage.getStore()?.context;
+        if (!context) {
             Logger.error("Auth context not initialized");
             throw new UnauthorizedError("Authentication context not available");
         }
-        return this.context;
+        return context;
     }
 
     static isAuthenticated(): boolean {
-        return this.context != null;
+        return this.storage.getStore()?.context != null;
     }
 
     static clear(): void {
-        this.context = null;
+        const store = this.storage.getStore();
+        if (store) {
+            store.context = null;
+        }
     }
 
     static getUserId(): string {
@@ -51,4 +65,8 @@ export class AuthContext {
     static getRole(): Role {
         return this.get().role;
     }
+
+    static getSessionId(): string {
+        return this.get().sessionId;
+    }
 }
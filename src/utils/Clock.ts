@@ -0,0 +1,13 @@
+/**
+ * Source of the current time. Injected wherever behaviour depends on it, so
+ * tests can pin it instead of waiting for real time to pass.
+ */
+export interface Clock {
+    now(): Date;
+}
+
+export class SystemClock implements Clock {
+    now(): Date {
+        return new Date();
+    }
+}
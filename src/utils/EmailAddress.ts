@@ -0,0 +1,9 @@
+/**
+ * Email addresses are compared and stored in one canonical form so that
+ * "Ann@Example.com " and "ann@example.com" are the same account.
+ */
+export class EmailAddress {
+    static normalize(email: string): string {
+        return email.trim().toLowerCase();
+    }
+}
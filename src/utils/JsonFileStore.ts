@@ -0,0 +1,58 @@
+import fs from "fs";
+import path from "path";
+import { Logger } from "./Logger";
+
+/**
+ * Keeps an array of records in a single JSON file. Writes go to a temporary
+ * file that is then renamed over the original, so a crash mid-write never
+ * leaves a truncated file behind; concurrent saves are applied in call order.
+ */
+export class JsonFileStore<T> {
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    constructor(
+        private filePath: string,
+        private dateFields: string[] = []
+    ) { }
+
+    load(): T[] {
+        if (!fs.existsSync(this.filePath)) {
+            Logger.info(`No data file at ${this.filePath}, starting empty`);
+            return [];
+        }
+
+        // Date fields are matched by key at any depth, including nested arrays
+        const records = JSON.parse(fs.readFileSync(this.filePath, "utf8"), (key, value) =>
+            this.dateFields.includes(key) && typeof value === "string" ? new Date(value) : value
+        ) as T[];
+
+        Logger.info(`Loaded ${records.length} records from ${this.filePath}`);
+        return records;
+    }
+
+    save(records: T[]): Promise<void> {
+        // Serialize now so later in-memory changes cannot leak into this write
+        const contents = JSON.stringify(records, null, 2);
+        this.pendingWrite = this.pendingWrite
+            .then(() => this.writeAtomically(contents))
+            .catch(error => {
+                Logger.error(`Failed to write ${this.filePath}`, error);
+            });
+        return this.pendingWrite;
+    }
+
+    private async writeAtomically(contents: string): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        const handle = await fs.promises.open(tempPath, "w");
+        try {
+            await handle.writeFile(contents, "utf8");
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+
+        await fs.promises.rename(tempPath, this.filePath);
+    }
+}
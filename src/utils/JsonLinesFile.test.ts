@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { JsonLinesFile } from "./JsonLinesFile";
+
+describe("JsonLinesFile", () => {
+    it("appends concurrent values as whole lines in call order", async () => {
+        const filePath = path.join(os.tmpdir(), crypto.randomUUID(), "nested", "events.jsonl");
+        const file = new JsonLinesFile(filePath);
+        try {
+            await Promise.all(Array.from({ length: 50 }, (_, i) => file.append({ i, padding: "x".repeat(i * 100) })));
+
+            const lines = (await fs.readFile(filePath, "utf8")).trimEnd().split("\n");
+            assert.deepEqual(lines.map(line => JSON.parse(line).i), Array.from({ length: 50 }, (_, i) => i));
+        } finally {
+            await fs.rm(path.dirname(path.dirname(filePath)), { recursive: true, force: true });
+        }
+    });
+
+    it("keeps appending after a failed write", async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), "jsonl-"));
+        const filePath = path.join(dir, "events.jsonl");
+        const file = new JsonLinesFile(filePath);
+        try {
+            // A directory in the file's place makes the first append fail
+            await fs.mkdir(filePath);
+            const failed = file.append({ n: 1 });
+            await assert.rejects(failed);
+            await fs.rmdir(filePath);
+
+            await file.append({ n: 2 });
+            assert.equal(await fs.readFile(filePath, "utf8"), '{"n":2}\n');
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
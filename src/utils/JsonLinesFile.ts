@@ -0,0 +1,25 @@
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Append-only file of JSON values, one per line. Appends are chained so
+ * concurrent writers never interleave, and a failed append does not hold up
+ * the ones after it.
+ */
+export class JsonLinesFile {
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    constructor(readonly filePath: string) { }
+
+    append(value: unknown): Promise<void> {
+        // Serialize now so later changes to `value` cannot leak into this line
+        const line = JSON.stringify(value) + "\n";
+
+        const write = this.pendingWrite.then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.appendFile(this.filePath, line, "utf8");
+        });
+        this.pendingWrite = write.catch(() => undefined);
+        return write;
+    }
+}
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { inspect } from "util";
+import { LogLevel, Logger, LoggerOptions } from "./Logger";
+
+// Everything written to stderr while `log` runs, as text
+function captureErrors(log: () => void): string {
+    const lines: string[] = [];
+    const stream = mock.method(console, "error", (...args: unknown[]) => {
+        lines.push(args.map(arg => typeof arg === "string" ? arg : inspect(arg, { depth: 10 })).join(" "));
+    });
+    try {
+        log();
+    } finally {
+        stream.mock.restore();
+    }
+    return lines.join("\n");
+}
+
+describe("Logger", () => {
+    let saved: LoggerOptions;
+    beforeEach(() => saved = Logger.getOptions());
+    afterEach(() => Logger.configure(saved));
+
+    for (const format of ["text", "json"] as const) {
+        it(`redacts errors that are not Error instances in ${format} mode`, () => {
+            Logger.configure({ level: LogLevel.ERROR, format });
+
+            const output = captureErrors(() => Logger.error("Request failed", {
+                password: "hunter2",
+                detail: "sent to someone@example.com"
+            }));
+
+            assert.doesNotMatch(output, /hunter2/);
+            assert.doesNotMatch(output, /someone@example\.com/);
+            assert.match(output, /\[REDACTED\]/);
+        });
+
+        it(`redacts Error messages in ${format} mode`, () => {
+            Logger.configure({ level: LogLevel.ERROR, format });
+
+            const output = captureErrors(() => Logger.error("Request failed", new Error("no user someone@example.com")));
+
+            assert.doesNotMatch(output, /someone@example\.com/);
+        });
+    }
+});
@@ -1,21 +1,183 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export enum LogLevel {
+    DEBUG = 10,
+    INFO = 20,
+    WARN = 30,
+    ERROR = 40
+}
+
+export type LogFormat = "text" | "json";
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+    level: LogLevel;
+    format: LogFormat;
+    redactKeys: string[];
+}
+
+const REDACTED = "[REDACTED]";
+const EMAIL_PATTERN = /[^\s@"'<>]+@[^\s@"'<>]+\.[^\s@"'<>]+/g;
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+
+const DEFAULT_OPTIONS: LoggerOptions = {
+    level: LogLevel.INFO,
+    format: "text",
+    redactKeys: ["password", "email", "token", "accessToken", "refreshToken", "authorization", "secret"]
+};
+
+/**
+ * Leveled logger with text or JSON output. Fields attached through
+ * `runWithContext` (such as the request id) and through child loggers are
+ * added to every line, and sensitive values are redacted before writing.
+ *
+ * The static methods log through the root logger; `Logger.child(fields)`
+ * returns an instance that carries extra fields.
+ */
 export class Logger {
-    private static formatMessage(level: string, message: string): string {
-        const timestamp = new Date().toISOString();
-        return `[${timestamp}] [${level}] ${message}`;
+    private static options: LoggerOptions = DEFAULT_OPTIONS;
+    private static contextStorage = new AsyncLocalStorage<LogFields>();
+    private static root = new Logger({});
+
+    private constructor(private fields: LogFields) { }
+
+    static configure(options: Partial<LoggerOptions>): void {
+        this.options = { ...this.options, ...options };
+    }
+
+    static getOptions(): LoggerOptions {
+        return { ...this.options };
+    }
+
+    static parseLevel(value: string | undefined, fallback: LogLevel = LogLevel.INFO): LogLevel {
+        const level = value ? LogLevel[value.toUpperCase() as keyof typeof LogLevel] : undefined;
+        return level ?? fallback;
+    }
+
+    /**
+     * Runs `callback` with `fields` added to every line logged inside it,
+     * across awaits.
+     */
+    static runWithContext<T>(fields: LogFields, callback: () => T): T {
+        const parent = this.contextStorage.getStore() ?? {};
+        return this.contextStorage.run({ ...parent, ...fields }, callback);
+    }
+
+    // Adds fields to the current context, e.g. the user once authenticated
+    static addContext(fields: LogFields): void {
+        const store = this.contextStorage.getStore();
+        if (store) {
+            Object.assign(store, fields);
+        }
+    }
+
+    static child(fields: LogFields): Logger {
+        return this.root.child(fields);
+    }
+
+    static debug(message: string, fields?: LogFields): void {
+        this.root.debug(message, fields);
+    }
+
+    static info(message: string, fields?: LogFields): void {
+        this.root.info(message, fields);
     }
 
-    static info(message: string): void {
-        console.log(this.formatMessage("INFO", message));
+    static warn(message: string, fields?: LogFields): void {
+        this.root.warn(message, fields);
     }
 
-    static error(message: string, error?: any): void {
-        console.error(this.formatMessage("ERROR", message));
-        if (error) {
-            console.error(error);
+    static error(message: string, error?: any, fields?: LogFields): void {
+        this.root.error(message, error, fields);
+    }
+
+    child(fields: LogFields): Logger {
+        return new Logger({ ...this.fields, ...fields });
+    }
+
+    debug(message: string, fields?: LogFields): void {
+        this.write(LogLevel.DEBUG, message, fields);
+    }
+
+    info(message: string, fields?: LogFields): void {
+        this.write(LogLevel.INFO, message, fields);
+    }
+
+    warn(message: string, fields?: LogFields): void {
+        this.write(LogLevel.WARN, message, fields);
+    }
+
+    error(message: string, error?: any, fields?: LogFields): void {
+        this.write(LogLevel.ERROR, message, fields, error);
+    }
+
+    private write(level: LogLevel, message: string, fields?: LogFields, error?: unknown): void {
+        const options = Logger.options;
+        if (level < options.level) {
+            return;
+        }
+
+        const entry: LogFields = Logger.redact({
+            ...Logger.contextStorage.getStore(),
+            ...this.fields,
+            ...fields
+        }) as LogFields;
+        const text = Logger.redactText(message);
+        const levelName = LogLevel[level];
+        const timestamp = new Date().toISOString();
+        const stream = level >= LogLevel.ERROR ? console.error : console.log;
+
+        if (options.format === "json") {
+            stream(JSON.stringify({
+                timestamp,
+                level: levelName,
+                message: text,
+                ...entry,
+                ...(error !== undefined ? { error: Logger.serializeError(error) } : {})
+            }));
+            return;
+        }
+
+        const suffix = Object.entries(entry)
+            .map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`)
+            .join(" ");
+        stream(`[${timestamp}] [${levelName}] ${text}${suffix ? ` ${suffix}` : ""}`);
+        if (error !== undefined) {
+            stream(error instanceof Error ? Logger.redactText(error.stack ?? error.message) : Logger.redact(error));
         }
     }
 
-    static debug(message: string): void {
-        console.log(this.formatMessage("DEBUG", message));
+    private static redact(value: unknown, depth: number = 0): unknown {
+        if (typeof value === "string") {
+            return this.redactText(value);
+        }
+        if (value === null || typeof value !== "object" || value instanceof Date || depth > 5) {
+            return value;
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.redact(item, depth + 1));
+        }
+
+        const keys = this.options.redactKeys.map(key => key.toLowerCase());
+        return Object.fromEntries(Object.entries(value).map(([key, inner]) =>
+            [key, keys.includes(key.toLowerCase()) ? REDACTED : this.redact(inner, depth + 1)]
+        ));
+    }
+
+    private static redactText(text: string): string {
+        return text.replace(JWT_PATTERN, REDACTED).replace(EMAIL_PATTERN, REDACTED);
+    }
+
+    private static serializeError(error: unknown): unknown {
+        if (!(error instanceof Error)) {
+            return this.redact(error);
+        }
+        return {
+            name: error.name,
+            message: this.redactText(error.message),
+            code: (error as { code?: unknown }).code,
+            stack: error.stack ? this.redactText(error.stack) : undefined
+        };
     }
 }
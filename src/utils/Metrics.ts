@@ -0,0 +1,122 @@
+export type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const escapeLabelValue = (value: string): string =>
+    value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+    const entries = Object.entries({ ...labels, ...extra });
+    if (entries.length === 0) {
+        return "";
+    }
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+// Label sets are keyed by their values in label-name order
+function seriesKey(labelNames: string[], labels: Labels): string {
+    return JSON.stringify(labelNames.map(name => labels[name] ?? ""));
+}
+
+interface Metric {
+    render(): string;
+}
+
+export class Counter implements Metric {
+    private series: Map<string, { labels: Labels; value: number }> = new Map();
+
+    constructor(private name: string, private help: string, private labelNames: string[] = []) { }
+
+    inc(labels: Labels = {}, amount: number = 1): void {
+        const key = seriesKey(this.labelNames, labels);
+        const entry = this.series.get(key) ?? { labels, value: 0 };
+        entry.value += amount;
+        this.series.set(key, entry);
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+        for (const { labels, value } of this.series.values()) {
+            lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+        }
+        return lines.join("\n");
+    }
+}
+
+export class Histogram implements Metric {
+    private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+    constructor(
+        private name: string,
+        private help: string,
+        private labelNames: string[] = [],
+        private buckets: number[] = DEFAULT_BUCKETS
+    ) { }
+
+    observe(labels: Labels, value: number): void {
+        const key = seriesKey(this.labelNames, labels);
+        const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) {
+                entry.counts[i]++;
+            }
+        });
+        entry.sum += value;
+        entry.count++;
+        this.series.set(key, entry);
+    }
+
+    // Starts a timer; calling the returned function records the elapsed seconds
+    startTimer(labels: Labels = {}): (extra?: Labels) => void {
+        const start = process.hrtime.bigint();
+        return (extra: Labels = {}) => {
+            const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+            this.observe({ ...labels, ...extra }, seconds);
+        };
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const { labels, counts, sum, count } of this.series.values()) {
+            this.buckets.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels(labels, { le: "+Inf" })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines.join("\n");
+    }
+}
+
+/**
+ * Process-wide metric registry, rendered in the Prometheus text exposition
+ * format by the /metrics endpoint.
+ */
+export class Metrics {
+    private static metrics: Map<string, Metric> = new Map();
+
+    static counter(name: string, help: string, labelNames: string[] = []): Counter {
+        return this.register(name, () => new Counter(name, help, labelNames));
+    }
+
+    static histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+        return this.register(name, () => new Histogram(name, help, labelNames, buckets));
+    }
+
+    static render(): string {
+        return [...this.metrics.values()].map(metric => metric.render()).join("\n") + "\n";
+    }
+
+    private static register<T extends Metric>(name: string, create: () => T): T {
+        const existing = this.metrics.get(name);
+        if (existing) {
+            return existing as T;
+        }
+        const metric = create();
+        this.metrics.set(name, metric);
+        return metric;
+    }
+}
+
+export const CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
@@ -0,0 +1,25 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { QueryParams } from "./QueryParams";
+import { ValidationError } from "../errors/BaseError";
+
+describe("QueryParams", () => {
+    it("reads single values and rejects repeated ones", () => {
+        assert.equal(QueryParams.single({ status: "TODO" }, "status"), "TODO");
+        assert.equal(QueryParams.single({}, "status"), undefined);
+        assert.throws(() => QueryParams.single({ status: ["TODO", "DONE"] }, "status"), /status must be a single value/);
+    });
+
+    it("parses dates", () => {
+        assert.deepEqual(QueryParams.date({ from: "2030-01-01" }, "from"), new Date("2030-01-01"));
+        assert.throws(() => QueryParams.date({ from: "soon" }, "from"), ValidationError);
+    });
+
+    it("defaults and bounds the page", () => {
+        assert.deepEqual(QueryParams.page({}), { limit: 20, offset: 0 });
+        assert.deepEqual(QueryParams.page({ limit: "100", offset: "40" }), { limit: 100, offset: 40 });
+        assert.throws(() => QueryParams.page({ limit: "101" }), /limit must be an integer between 1 and 100/);
+        assert.throws(() => QueryParams.page({ offset: "-1" }), /offset must be an integer/);
+        assert.throws(() => QueryParams.page({ limit: "2.5" }), ValidationError);
+    });
+});
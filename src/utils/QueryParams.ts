@@ -0,0 +1,54 @@
+import { Request } from "express";
+import { ValidationError } from "../errors/BaseError";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface Page {
+    limit: number;
+    offset: number;
+}
+
+/**
+ * Typed access to query string parameters, shared by the controllers. A
+ * parameter given more than once, or one that does not parse, is rejected
+ * with a ValidationError naming it.
+ */
+export class QueryParams {
+    static single(params: Request["query"], name: string): string | undefined {
+        const value = params[name];
+        if (value === undefined) return undefined;
+        if (typeof value !== "string") {
+            throw new ValidationError(`${name} must be a single value`);
+        }
+        return value;
+    }
+
+    static date(params: Request["query"], name: string): Date | undefined {
+        const value = this.single(params, name);
+        if (value === undefined) return undefined;
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+            throw new ValidationError(`${name} must be a valid date`);
+        }
+        return date;
+    }
+
+    static integer(params: Request["query"], name: string, fallback: number, min: number, max: number): number {
+        const value = this.single(params, name);
+        if (value === undefined) return fallback;
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+            throw new ValidationError(`${name} must be an integer between ${min} and ${max}`);
+        }
+        return parsed;
+    }
+
+    /** `limit` (20 by default, at most 100) and `offset` for paginated listings. */
+    static page(params: Request["query"]): Page {
+        return {
+            limit: this.integer(params, "limit", DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE),
+            offset: this.integer(params, "offset", 0, 0, Number.MAX_SAFE_INTEGER)
+        };
+    }
+}
@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Recurrence } from "./Recurrence";
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from "../types/DTOs";
+
+// Occurrence deadlines following `start`, as ISO dates
+function series(rule: RecurrenceRule, start: string, count: number): string[] {
+    const deadlines: string[] = [];
+    let deadline = new Date(start);
+    for (let i = 0; i < count; i++) {
+        deadline = Recurrence.next(rule, deadline);
+        deadlines.push(deadline.toISOString().slice(0, 10));
+    }
+    return deadlines;
+}
+
+describe("Recurrence", () => {
+    it("keeps a monthly series on its first day of the month after a short month", () => {
+        const start = "2030-01-31T09:00:00.000Z";
+        const rule = Recurrence.anchor({ frequency: RecurrenceFrequency.MONTHLY }, new Date(start));
+
+        assert.equal(rule.byMonthDay, 31);
+        assert.deepEqual(series(rule, start, 4), ["2030-02-28", "2030-03-31", "2030-04-30", "2030-05-31"]);
+    });
+
+    it("keeps an explicit day of the month", () => {
+        const rule = Recurrence.anchor({ frequency: RecurrenceFrequency.MONTHLY, byMonthDay: 15 }, new Date("2030-01-31T09:00:00Z"));
+
+        assert.equal(rule.byMonthDay, 15);
+    });
+
+    it("anchors a weekly series to the weekday of its first deadline", () => {
+        const start = "2030-01-02T09:00:00.000Z"; // a Wednesday
+        const rule = Recurrence.anchor({ frequency: RecurrenceFrequency.WEEKLY, interval: 2 }, new Date(start));
+
+        assert.deepEqual(rule.byWeekday, [Weekday.WE]);
+        assert.deepEqual(series(rule, start, 2), ["2030-01-16", "2030-01-30"]);
+    });
+
+    it("ends the series once count or until is reached", () => {
+        const rule: RecurrenceRule = { frequency: RecurrenceFrequency.DAILY, count: 2 };
+        const deadline = new Date("2030-01-01T09:00:00Z");
+
+        assert.equal(Recurrence.following({ rule, seriesId: "s", occurrence: 1 }, deadline, deadline)?.occurrence, 2);
+        assert.equal(Recurrence.following({ rule, seriesId: "s", occurrence: 2 }, deadline, deadline), undefined);
+    });
+});
@@ -0,0 +1,114 @@
+import { FieldError, ValidationError } from "../errors/BaseError";
+import { RecurrenceFrequency, RecurrenceRule, TaskRecurrence, Weekday } from "../types/DTOs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Monday-based, as weeks are in iCalendar by default
+const WEEKDAYS: Weekday[] = [Weekday.MO, Weekday.TU, Weekday.WE, Weekday.TH, Weekday.FR, Weekday.SA, Weekday.SU];
+
+const weekdayIndex = (date: Date): number => (date.getUTCDay() + 6) % 7;
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+export interface Occurrence {
+    deadline: Date;
+    occurrence: number;
+}
+
+/**
+ * Steps through the occurrences of a recurrence rule. Dates are computed in
+ * UTC and keep the time of day of the first deadline. Monthly rules on a day
+ * a month does not have (e.g. the 31st) fall on that month's last day.
+ * Rules are stored anchored to their first deadline (see `anchor`), so a
+ * short month does not move every later occurrence.
+ */
+export class Recurrence {
+    static assertValid(rule: RecurrenceRule, deadline?: Date): void {
+        const errors: FieldError[] = [];
+        if (!deadline) {
+            errors.push({ field: "deadline", message: "A recurring task needs a deadline" });
+        }
+        if (rule.byWeekday && rule.frequency !== RecurrenceFrequency.WEEKLY) {
+            errors.push({ field: "recurrence", message: "Recurrence weekdays only apply to WEEKLY rules" });
+        }
+        if (rule.byMonthDay && rule.frequency !== RecurrenceFrequency.MONTHLY) {
+            errors.push({ field: "recurrence", message: "Recurrence day of month only applies to MONTHLY rules" });
+        }
+        if (rule.count !== undefined && rule.until !== undefined) {
+            errors.push({ field: "recurrence", message: "Recurrence count and end cannot be combined" });
+        }
+        if (deadline && rule.until && new Date(rule.until) < new Date(deadline)) {
+            errors.push({ field: "recurrence", message: "Recurrence end must not be before the deadline" });
+        }
+
+        if (errors.length > 0) {
+            throw new ValidationError("Validation failed", errors);
+        }
+    }
+
+    /**
+     * Fills in the day the rule leaves to the first deadline. Without it each
+     * occurrence would follow the previous one, so a series starting on
+     * January 31st would stay on the 28th after February.
+     */
+    static anchor(rule: RecurrenceRule, deadline: Date): RecurrenceRule {
+        switch (rule.frequency) {
+            case RecurrenceFrequency.MONTHLY:
+                return { ...rule, byMonthDay: rule.byMonthDay ?? deadline.getUTCDate() };
+            case RecurrenceFrequency.WEEKLY:
+                return { ...rule, byWeekday: rule.byWeekday?.length ? rule.byWeekday : [WEEKDAYS[weekdayIndex(deadline)]] };
+            default:
+                return rule;
+        }
+    }
+
+    /** The occurrence right after the one due at `from`, ignoring count and until. */
+    static next(rule: RecurrenceRule, from: Date): Date {
+        const interval = rule.interval ?? 1;
+
+        switch (rule.frequency) {
+            case RecurrenceFrequency.DAILY:
+                return addDays(from, interval);
+            case RecurrenceFrequency.WEEKLY: {
+                const days = (rule.byWeekday?.length ? rule.byWeekday : [WEEKDAYS[weekdayIndex(from)]])
+                    .map(day => WEEKDAYS.indexOf(day))
+                    .sort((a, b) => a - b);
+                const current = weekdayIndex(from);
+                const laterThisWeek = days.find(day => day > current);
+                if (laterThisWeek !== undefined) {
+                    return addDays(from, laterThisWeek - current);
+                }
+                // First listed weekday of the week `interval` weeks on
+                return addDays(from, 7 * interval - current + days[0]);
+            }
+            case RecurrenceFrequency.MONTHLY: {
+                const year = from.getUTCFullYear();
+                const month = from.getUTCMonth() + interval;
+                const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+                const next = new Date(from);
+                next.setUTCFullYear(year, month, Math.min(rule.byMonthDay ?? from.getUTCDate(), lastDay));
+                return next;
+            }
+        }
+    }
+
+    /**
+     * The first occurrence after `deadline` that is due after `notBefore`, or
+     * undefined once the series has ended. Occurrences skipped on the way
+     * still count towards `count`.
+     */
+    static following(recurrence: TaskRecurrence, deadline: Date, notBefore: Date): Occurrence | undefined {
+        const { rule } = recurrence;
+        let occurrence = recurrence.occurrence;
+        let next = new Date(deadline);
+
+        do {
+            occurrence++;
+            next = this.next(rule, next);
+            if ((rule.count !== undefined && occurrence > rule.count) || (rule.until && next > new Date(rule.until))) {
+                return undefined;
+            }
+        } while (next < notBefore);
+
+        return { deadline: next, occurrence };
+    }
+}
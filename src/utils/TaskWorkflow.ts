@@ -0,0 +1,55 @@
+import { TaskStatus, TaskStatusChange } from "../types/DTOs";
+import { ValidationError } from "../errors/BaseError";
+
+const TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+    [TaskStatus.TODO]: [TaskStatus.IN_PROGRESS, TaskStatus.DONE, TaskStatus.CANCELLED],
+    [TaskStatus.IN_PROGRESS]: [TaskStatus.TODO, TaskStatus.DONE, TaskStatus.CANCELLED],
+    [TaskStatus.DONE]: [],
+    [TaskStatus.CANCELLED]: []
+};
+
+// Only reachable through an explicit reopen
+const REOPEN_TRANSITIONS: Partial<Record<TaskStatus, TaskStatus>> = {
+    [TaskStatus.DONE]: TaskStatus.TODO,
+    [TaskStatus.CANCELLED]: TaskStatus.TODO
+};
+
+/**
+ * The task status state machine. Closed tasks (DONE, CANCELLED) can only move
+ * again by being reopened.
+ */
+export class TaskWorkflow {
+    static isStatus(value: unknown): value is TaskStatus {
+        return Object.values(TaskStatus).includes(value as TaskStatus);
+    }
+
+    static isClosed(status: TaskStatus): boolean {
+        return status === TaskStatus.DONE || status === TaskStatus.CANCELLED;
+    }
+
+    static canTransition(from: TaskStatus, to: TaskStatus): boolean {
+        return TRANSITIONS[from].includes(to);
+    }
+
+    static assertTransition(from: TaskStatus, to: TaskStatus): void {
+        if (this.canTransition(from, to)) {
+            return;
+        }
+        if (REOPEN_TRANSITIONS[from]) {
+            throw new ValidationError(`Cannot move a ${from} task to ${to}; reopen it first`);
+        }
+        throw new ValidationError(`Cannot move a task from ${from} to ${to}`);
+    }
+
+    static reopenTarget(from: TaskStatus): TaskStatus {
+        const target = REOPEN_TRANSITIONS[from];
+        if (!target) {
+            throw new ValidationError(`Only DONE or CANCELLED tasks can be reopened, task is ${from}`);
+        }
+        return target;
+    }
+
+    static change(from: TaskStatus | null, to: TaskStatus, changedBy: string, changedAt: Date): TaskStatusChange {
+        return { from, to, changedBy, changedAt };
+    }
+}
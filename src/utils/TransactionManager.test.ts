@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import "../testing/fixtures";
+import { TransactionManager } from "./TransactionManager";
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe("TransactionManager", () => {
+    it("rolls back only the transaction that failed when two overlap", async () => {
+        const manager = new TransactionManager();
+        const undone: string[] = [];
+
+        const failing = manager.run(async () => {
+            manager.recordUndo(() => undone.push("failing"));
+            await tick();
+            throw new Error("boom");
+        });
+        const succeeding = manager.run(async () => {
+            manager.recordUndo(() => undone.push("succeeding"));
+            await tick();
+            await tick();
+            return "done";
+        });
+
+        await assert.rejects(failing, /boom/);
+        assert.equal(await succeeding, "done");
+        assert.deepEqual(undone, ["failing"]);
+    });
+
+    it("joins an outer transaction instead of starting its own", async () => {
+        const manager = new TransactionManager();
+        const undone: string[] = [];
+
+        await assert.rejects(manager.run(async () => {
+            manager.recordUndo(() => undone.push("outer"));
+            await manager.run(async () => {
+                manager.recordUndo(() => undone.push("inner"));
+            });
+            throw new Error("outer failed");
+        }), /outer failed/);
+
+        assert.deepEqual(undone, ["inner", "outer"]);
+    });
+
+    it("rethrows the original error when an undo step fails", async () => {
+        const manager = new TransactionManager();
+        const undone: string[] = [];
+
+        await assert.rejects(manager.run(async () => {
+            manager.recordUndo(() => undone.push("first"));
+            manager.recordUndo(() => { throw new Error("undo failed"); });
+            throw new Error("original");
+        }), /original/);
+
+        assert.deepEqual(undone, ["first"]);
+    });
+
+    it("records nothing outside a transaction", async () => {
+        const manager = new TransactionManager();
+        let undone = false;
+
+        await manager.run(async () => { });
+        manager.recordUndo(() => { undone = true; });
+        await assert.rejects(manager.run(async () => { throw new Error("later"); }));
+
+        assert.equal(manager.inTransaction(), false);
+        assert.equal(undone, false);
+    });
+
+    it("runs actions once, after the outermost transaction ends either way", async () => {
+        const manager = new TransactionManager();
+        const events: string[] = [];
+        const action = async () => { events.push("ended"); };
+
+        await manager.run(async () => {
+            await manager.afterTransaction(action);
+            await manager.run(() => manager.afterTransaction(action));
+            events.push("committing");
+        });
+        await assert.rejects(manager.run(async () => {
+            manager.recordUndo(() => events.push("undone"));
+            await manager.afterTransaction(action);
+            throw new Error("rolled back");
+        }));
+
+        assert.deepEqual(events, ["committing", "ended", "undone", "ended"]);
+    });
+});
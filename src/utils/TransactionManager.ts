@@ -1,35 +1,111 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { Logger } from "./Logger";
+import { Metrics } from "./Metrics";
 
+const commits = Metrics.counter("transaction_commits_total", "Committed transactions");
+const rollbacks = Metrics.counter("transaction_rollbacks_total", "Rolled back transactions");
+
+interface Transaction {
+    undoLog: Array<() => void>;
+    completionActions: Set<() => Promise<void>>;
+    active: boolean;
+}
+
+/**
+ * Undo-log transactions: while a transaction is active, repositories record a
+ * compensating action for every record they change, and a failure replays
+ * those actions in reverse order to restore the previous state.
+ *
+ * Each transaction lives in its own AsyncLocalStorage scope, like
+ * AuthContext, so overlapping requests keep separate undo logs and a rollback
+ * only touches the records its own transaction changed. A transactional call
+ * made inside another one joins it rather than starting its own.
+ *
+ * Side effects that must wait until the changes are settled, such as writing
+ * the records to disk, are registered with `afterTransaction` and run once the
+ * outermost transaction has committed or rolled back.
+ */
 export class TransactionManager {
-    private isActive = false;
-    private operations: Array<() => void> = [];
+    private storage = new AsyncLocalStorage<Transaction>();
 
-    begin(): void {
-        this.isActive = true;
-        this.operations = [];
+    async run<T>(work: () => Promise<T>): Promise<T> {
+        if (this.storage.getStore()?.active) {
+            return work();
+        }
+
+        const transaction: Transaction = { undoLog: [], completionActions: new Set(), active: true };
+        return this.storage.run(transaction, async () => {
+            // Ended before the completion actions run, so they and any work
+            // still running afterwards see the changes as final instead of joining
+            try {
+                const result = await work();
+                transaction.active = false;
+                commits.inc();
+                return result;
+            } catch (error) {
+                transaction.active = false;
+                this.rollback(transaction);
+                throw error;
+            } finally {
+                transaction.undoLog = [];
+                await this.runCompletionActions(transaction);
+            }
+        });
     }
 
-    commit(): void {
-        if (!this.isActive) {
-            throw new Error("No active transaction to commit");
+    inTransaction(): boolean {
+        return this.storage.getStore()?.active ?? false;
+    }
+
+    /**
+     * Records an undo action if a transaction is active; outside a
+     * transaction changes are final and nothing is recorded.
+     */
+    recordUndo(operation: () => void): void {
+        const transaction = this.storage.getStore();
+        if (transaction?.active) {
+            transaction.undoLog.push(operation);
         }
-        this.isActive = false;
-        this.operations = [];
     }
 
-    rollback(): void {
-        if (!this.isActive) {
-            throw new Error("No active transaction to rollback");
+    /**
+     * Runs `action` once the active transaction has committed or rolled back,
+     * or right away outside a transaction. Registering the same function again
+     * within a transaction still runs it only once.
+     */
+    async afterTransaction(action: () => Promise<void>): Promise<void> {
+        const transaction = this.storage.getStore();
+        if (transaction?.active) {
+            transaction.completionActions.add(action);
+            return;
         }
-        Logger.error("Rolling back transaction");
-        this.isActive = false;
-        this.operations = [];
+        await action();
     }
 
-    addOperation(operation: () => void): void {
-        if (!this.isActive) {
-            throw new Error("No active transaction");
+    // The outcome is already settled, so a failing action is logged rather than rethrown
+    private async runCompletionActions(transaction: Transaction): Promise<void> {
+        const actions = [...transaction.completionActions];
+        transaction.completionActions.clear();
+        for (const action of actions) {
+            try {
+                await action();
+            } catch (error) {
+                Logger.error("Action after transaction failed", error);
+            }
+        }
+    }
+
+    // Never throws, so callers see the error that caused the rollback
+    private rollback(transaction: Transaction): void {
+        Logger.error(`Rolling back transaction (${transaction.undoLog.length} operation(s) to undo)`);
+
+        for (const undo of [...transaction.undoLog].reverse()) {
+            try {
+                undo();
+            } catch (error) {
+                Logger.error("Failed to undo operation during rollback", error);
+            }
         }
-        this.operations.push(operation);
+        rollbacks.inc();
     }
 }
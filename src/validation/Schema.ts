@@ -0,0 +1,76 @@
+import { FieldError, ValidationError } from "../errors/BaseError";
+
+/** What rules may depend on besides the value, such as the current time. */
+export interface ValidationContext {
+    now: Date;
+}
+
+/**
+ * Returns an error message for an invalid value, or undefined when it is valid.
+ * Rules only run on values that are present; `required` covers absence.
+ */
+export type Rule = (value: any, label: string, context: ValidationContext) => string | undefined;
+
+export interface FieldSchema {
+    label: string;
+    required?: boolean;
+    rules: Rule[];
+}
+
+export interface Schema<T> {
+    fields: Partial<Record<keyof T & string, FieldSchema>>;
+    // At least one of these fields must be present
+    requireOneOf?: Array<keyof T & string>;
+}
+
+const isPresent = (value: unknown): boolean => value !== undefined && value !== null;
+
+/**
+ * Collects every field error in `input` instead of stopping at the first one.
+ * Each field reports at most one error: its first failing rule. Time rules
+ * use `context.now`, which services set from their clock.
+ */
+export function validate<T>(schema: Schema<T>, input: unknown, context: ValidationContext = { now: new Date() }): FieldError[] {
+    // A missing body is treated as empty so that required fields get reported
+    if (input !== undefined && (typeof input !== "object" || input === null || Array.isArray(input))) {
+        return [{ field: "", message: "Request body must be an object" }];
+    }
+
+    const data = (input ?? {}) as Record<string, unknown>;
+    const errors: FieldError[] = [];
+
+    for (const [field, fieldSchema] of Object.entries(schema.fields) as Array<[string, FieldSchema]>) {
+        const value = data[field];
+
+        if (!isPresent(value)) {
+            if (fieldSchema.required) {
+                errors.push({ field, message: `${fieldSchema.label} is required` });
+            }
+            continue;
+        }
+
+        for (const rule of fieldSchema.rules) {
+            const message = rule(value, fieldSchema.label, context);
+            if (message) {
+                errors.push({ field, message });
+                break;
+            }
+        }
+    }
+
+    if (schema.requireOneOf && !schema.requireOneOf.some(field => isPresent(data[field]))) {
+        errors.push({
+            field: "",
+            message: `At least one field (${schema.requireOneOf.join(", ")}) required`
+        });
+    }
+
+    return errors;
+}
+
+export function assertValid<T>(schema: Schema<T>, input: unknown, context?: ValidationContext): void {
+    const errors = validate(schema, input, context);
+    if (errors.length > 0) {
+        throw new ValidationError("Validation failed", errors);
+    }
+}
@@ -0,0 +1,72 @@
+import { Rule, Schema, validate } from "./Schema";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const toDate = (value: unknown): Date => value instanceof Date ? value : new Date(value as string);
+
+export const isString: Rule = (value, label) =>
+    typeof value === "string" ? undefined : `${label} must be a string`;
+
+export const minLength = (min: number): Rule => (value: string, label) =>
+    value.trim().length >= min ? undefined : `${label} must be at least ${min} characters long`;
+
+export const maxLength = (max: number): Rule => (value: string, label) =>
+    value.length <= max ? undefined : `${label} must not exceed ${max} characters`;
+
+export const isEmail: Rule = (value: string, label) =>
+    EMAIL_PATTERN.test(value.trim()) ? undefined : `${label} must be a valid email address`;
+
+export const isStrongPassword: Rule = (value: string, label) =>
+    value.length >= 8 && /[A-Za-z]/.test(value) && /\d/.test(value)
+        ? undefined
+        : `${label} must be at least 8 characters and contain a letter and a digit`;
+
+export const oneOf = (allowed: readonly string[]): Rule => (value, label) => {
+    if (allowed.includes(value)) {
+        return undefined;
+    }
+    const choices = allowed.length > 1
+        ? `${allowed.slice(0, -1).join(", ")}, or ${allowed[allowed.length - 1]}`
+        : allowed[0];
+    return `${label} must be ${choices}`;
+};
+
+export const integerBetween = (min: number, max: number): Rule => (value, label) =>
+    Number.isInteger(value) && value >= min && value <= max
+        ? undefined
+        : `${label} must be an integer between ${min} and ${max}`;
+
+export const isDate: Rule = (value, label) =>
+    (typeof value === "string" || value instanceof Date) && !isNaN(toDate(value).getTime())
+        ? undefined
+        : `Invalid ${label.toLowerCase()} date format`;
+
+export const notInPast: Rule = (value, label, { now }) =>
+    toDate(value) >= now ? undefined : `${label} cannot be in the past`;
+
+export const withinYears = (years: number): Rule => (value, label, { now }) => {
+    const limit = new Date(now);
+    limit.setFullYear(limit.getFullYear() + years);
+    return toDate(value) <= limit ? undefined : `${label} cannot be more than ${years} years in the future`;
+};
+
+export const nonEmptyArrayOf = (item: Rule): Rule => (value, label, context) => {
+    if (!Array.isArray(value) || value.length === 0) {
+        return `${label} must be a non-empty array`;
+    }
+    for (const element of value) {
+        const message = item(element, `Each entry of ${label}`, context);
+        if (message) {
+            return message;
+        }
+    }
+    return undefined;
+};
+
+// Validates an object-valued field against its own schema, reporting the first error
+export const matchesSchema = <T>(schema: Schema<T>): Rule => (value, label, context) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return `${label} must be an object`;
+    }
+    return validate(schema, value, context)[0]?.message;
+};
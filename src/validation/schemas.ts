@@ -0,0 +1,154 @@
+import {
+    ChangeRoleDTO, CreateProjectDTO, CreateTaskDTO, CreateUserDTO, ForgotPasswordDTO, LoginDTO, ProjectMemberDTO,
+    RecurrenceFrequency, RecurrenceRule, RefreshTokenDTO, ResetPasswordDTO, Role, ShareRole, ShareTaskDTO, TaskDependencyDTO, TaskStatus, UpdateProfileDTO,
+    UpdateProjectDTO, UpdateTaskDTO, VerifyEmailDTO, Weekday
+} from "../types/DTOs";
+import { Schema } from "./Schema";
+import {
+    integerBetween, isDate, isEmail, isString, isStrongPassword, matchesSchema, maxLength, minLength,
+    nonEmptyArrayOf, notInPast, oneOf, withinYears
+} from "./rules";
+
+const PRIORITIES = ["LOW", "MEDIUM", "HIGH"] as const;
+
+const title = { label: "Title", rules: [isString, minLength(3), maxLength(100)] };
+const description = { label: "Description", rules: [isString, maxLength(500)] };
+const deadline = { label: "Deadline", rules: [isDate, notInPast, withinYears(5)] };
+const priority = { label: "Priority", rules: [oneOf(PRIORITIES)] };
+const projectId = { label: "Project", rules: [isString] };
+const parentId = { label: "Parent task", rules: [isString] };
+
+// Cross-field constraints (e.g. byWeekday only with WEEKLY) are checked by Recurrence.assertValid
+const RecurrenceRuleSchema: Schema<RecurrenceRule> = {
+    fields: {
+        frequency: { label: "Recurrence frequency", required: true, rules: [oneOf(Object.values(RecurrenceFrequency))] },
+        interval: { label: "Recurrence interval", rules: [integerBetween(1, 365)] },
+        byWeekday: { label: "Recurrence weekdays", rules: [nonEmptyArrayOf(oneOf(Object.values(Weekday)))] },
+        byMonthDay: { label: "Recurrence day of month", rules: [integerBetween(1, 31)] },
+        count: { label: "Recurrence count", rules: [integerBetween(1, 1000)] },
+        until: { label: "Recurrence end", rules: [isDate, notInPast] }
+    }
+};
+
+const email = { label: "Email", rules: [isString, isEmail, maxLength(254)] };
+const password = { label: "Password", rules: [isString, isStrongPassword, maxLength(72)] };
+
+export const CreateUserSchema: Schema<CreateUserDTO> = {
+    fields: {
+        email: { ...email, required: true },
+        password: { ...password, required: true }
+    }
+};
+
+export const UpdateProfileSchema: Schema<UpdateProfileDTO> = {
+    fields: {
+        email,
+        password,
+        currentPassword: { label: "Current password", rules: [isString] }
+    },
+    requireOneOf: ["email", "password"]
+};
+
+export const ChangeRoleSchema: Schema<ChangeRoleDTO> = {
+    fields: {
+        role: { label: "Role", required: true, rules: [oneOf(Object.values(Role))] }
+    }
+};
+
+export const LoginSchema: Schema<LoginDTO> = {
+    fields: {
+        email: { label: "Email", required: true, rules: [isString] },
+        password: { label: "Password", required: true, rules: [isString] }
+    }
+};
+
+export const RefreshTokenSchema: Schema<RefreshTokenDTO> = {
+    fields: {
+        refreshToken: { label: "refreshToken", required: true, rules: [isString] }
+    }
+};
+
+export const VerifyEmailSchema: Schema<VerifyEmailDTO> = {
+    fields: {
+        token: { label: "token", required: true, rules: [isString] }
+    }
+};
+
+export const ForgotPasswordSchema: Schema<ForgotPasswordDTO> = {
+    fields: {
+        email: { ...email, required: true }
+    }
+};
+
+export const ResetPasswordSchema: Schema<ResetPasswordDTO> = {
+    fields: {
+        token: { label: "token", required: true, rules: [isString] },
+        password: { ...password, required: true }
+    }
+};
+
+export const CreateTaskSchema: Schema<CreateTaskDTO> = {
+    fields: {
+        title: { ...title, required: true },
+        description,
+        deadline,
+        priority,
+        projectId,
+        parentId,
+        recurrence: { label: "Recurrence", rules: [matchesSchema(RecurrenceRuleSchema)] }
+    }
+};
+
+export const UpdateTaskSchema: Schema<UpdateTaskDTO> = {
+    fields: {
+        title,
+        description,
+        status: { label: "Status", rules: [oneOf(Object.values(TaskStatus))] },
+        deadline,
+        priority,
+        projectId
+    },
+    requireOneOf: ["title", "description", "status", "deadline", "priority", "projectId"]
+};
+
+const projectName = { label: "Name", rules: [isString, minLength(1), maxLength(100)] };
+
+export const CreateProjectSchema: Schema<CreateProjectDTO> = {
+    fields: {
+        name: { ...projectName, required: true },
+        description
+    }
+};
+
+export const UpdateProjectSchema: Schema<UpdateProjectDTO> = {
+    fields: {
+        name: projectName,
+        description
+    },
+    requireOneOf: ["name", "description"]
+};
+
+export const ProjectMemberSchema: Schema<ProjectMemberDTO> = {
+    fields: {
+        userId: { label: "userId", required: true, rules: [isString] }
+    }
+};
+
+export const ShareTaskSchema: Schema<ShareTaskDTO> = {
+    fields: {
+        userId: { label: "userId", required: true, rules: [isString] },
+        role: { label: "Role", required: true, rules: [oneOf(Object.values(ShareRole))] }
+    }
+};
+
+export const TaskDependencySchema: Schema<TaskDependencyDTO> = {
+    fields: {
+        taskId: { label: "taskId", required: true, rules: [isString] }
+    }
+};
+
+export const DeleteMultipleTasksSchema: Schema<{ ids: string[] }> = {
+    fields: {
+        ids: { label: "ids", required: true, rules: [nonEmptyArrayOf(isString)] }
+    }
+};